@@ -36,14 +36,20 @@ sprite exec "$SPRITE_NAME" -- bash -c "
   git clone $REPO_URL agent && \
   cd agent && \
   npm install && \
-  npx tsc
+  npm run build
 "
 
-# 4. Create non-root agent user
+# 4. Create the non-root user agent commands run as, and install the command sandbox
 echo "[4/10] Creating agent user..."
 sprite exec "$SPRITE_NAME" -- bash -c "
-  useradd -m -s /bin/bash agent || true
-"
+  (id -u agent > /dev/null 2>&1 || useradd -m -s /bin/bash agent) && \
+  apt-get update > /dev/null && \
+  apt-get install -y bubblewrap util-linux > /dev/null && \
+  bwrap --ro-bind / / --unshare-all true
+" || {
+  echo 'Error: could not create the agent user or install a working bubblewrap' >&2
+  exit 1
+}
 
 # 5. Copy founding document to root and make immutable
 echo "[5/10] Installing founding document..."
@@ -53,12 +59,18 @@ sprite exec "$SPRITE_NAME" -- bash -c "
   chmod 444 /founding-document.md
 "
 
-# 6. Create agent directory structure
+# 6. Create agent directory structure. The supervisor runs as root and agent
+# commands as 'agent': the agent's tree is shared through the agent group
+# (setgid directories, umask 002), while the ledger stays root-only.
 echo "[6/10] Creating agent directories..."
 sprite exec "$SPRITE_NAME" -- bash -c "
   mkdir -p /self/logs /self/awakenings /self/decisions/pending \
            /projects /income /comms/inbox /comms/outbox /public && \
-  chown -R agent:agent /self /projects /income /comms /public
+  chown -R agent:agent /self /projects /income /comms /public && \
+  find /self /projects /income /comms /public -type d -exec chmod 2775 {} + && \
+  mkdir -p /var/lib/gurgeh && \
+  chown root:root /var/lib/gurgeh && \
+  chmod 700 /var/lib/gurgeh
 "
 
 # 7. Write .env file
@@ -71,16 +83,20 @@ INITIAL_BUDGET=50.00
 AWAKENING_INTERVAL_MINUTES=30
 MAX_TOKENS_PER_CYCLE=8192
 PORT=8080
+SANDBOX_BACKEND=bwrap
+SANDBOX_USER=agent
 EOF
-  chown agent:agent /opt/agent/.env
+  chown root:root /opt/agent/.env
   chmod 600 /opt/agent/.env
 "
 
-# 8. Start the agent process
+# 8. Start the supervisor as root, so it can keep the ledger to itself and
+# run agent commands as the agent user
 echo "[8/10] Starting agent process..."
 sprite exec "$SPRITE_NAME" -- bash -c "
   cd /opt/agent && \
-  su agent -c 'nohup node dist/index.js > /self/logs/stdout.log 2>&1 &'
+  umask 002 && \
+  nohup node dist/index.js > /self/logs/stdout.log 2>&1 &
 "
 
 # 9. Make URL publicly accessible
@@ -99,4 +115,4 @@ echo ""
 echo "Monitor with:"
 echo "  sprite exec $SPRITE_NAME -- tail -f /self/logs/agent.log"
 echo "  sprite exec $SPRITE_NAME -- cat /self/journal.md"
-echo "  sprite exec $SPRITE_NAME -- cat /income/balance.json"
+echo "  sprite exec $SPRITE_NAME -- cat /var/lib/gurgeh/balance.json"
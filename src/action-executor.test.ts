@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Action, AgentConfig } from './types';
+import { executeActions, initExecutor } from './action-executor';
+import { initMemory } from './memory';
+
+// A write with no path fails without touching anything
+const failing = (id: string): Action => ({ type: 'write', content: 'x', id });
+const think = (id: string, after?: string[], condition?: Action['condition']): Action =>
+  ({ type: 'think', content: id, id, after, condition });
+
+describe('action scheduling', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'executor-'));
+    const config = { baseDir: dir, actionConcurrency: 2 } as AgentConfig;
+    initMemory(config);
+    initExecutor(config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns results in the order the actions were given', async () => {
+    const actions = [think('a'), failing('b'), think('c')];
+    const results = await executeActions(actions);
+    expect(results.map(r => r.action)).toEqual(actions);
+    expect(results.map(r => r.success)).toEqual([true, false, true]);
+  });
+
+  it('skips an action whose dependency failed', async () => {
+    const [, dependent] = await executeActions([failing('a'), think('b', ['a'])]);
+    expect(dependent).toMatchObject({ success: false, skipped: true });
+    expect(dependent.error).toMatch(/depends on "a", which failed/);
+  });
+
+  it('skips the rest of a chain once one link is skipped', async () => {
+    const results = await executeActions([failing('a'), think('b', ['a']), think('c', ['b'])]);
+    expect(results[2].error).toMatch(/"b", which was skipped/);
+  });
+
+  it('runs an if="failure" action only when a dependency failed', async () => {
+    const afterFailure = await executeActions([failing('a'), think('b', ['a'], 'failure')]);
+    expect(afterFailure[1].success).toBe(true);
+
+    const afterSuccess = await executeActions([think('a'), think('b', ['a'], 'failure')]);
+    expect(afterSuccess[1]).toMatchObject({ skipped: true });
+  });
+
+  it('skips an action that depends on an id not written before it', async () => {
+    const results = await executeActions([think('b', ['a']), think('a')]);
+    expect(results[0].error).toMatch(/did not run before it/);
+    expect(results[1].success).toBe(true);
+  });
+
+  it('ignores dependencies for operator-approved actions', async () => {
+    const [result] = await executeActions([think('b', ['missing'])], 0, true);
+    expect(result.success).toBe(true);
+  });
+
+  it('keeps writes to the same path in order', async () => {
+    await executeActions([
+      { type: 'write', path: '/projects/log.txt', content: 'one', mode: 'overwrite' },
+      { type: 'write', path: '/projects/log.txt', content: 'two', mode: 'append' },
+      { type: 'think', content: 'between' },
+      { type: 'write', path: 'projects/log.txt', content: 'three', mode: 'append' },
+    ]);
+    const written = fs.readFileSync(path.join(dir, 'projects', 'log.txt'), 'utf-8');
+    expect(written.indexOf('one')).toBe(0);
+    expect(written.indexOf('two')).toBeLessThan(written.indexOf('three'));
+  });
+});
@@ -1,6 +1,6 @@
 import { Action, ExecutionResult, ExecutionLog, AgentConfig } from './types';
 import { logger } from './logger';
-import { safeWrite, safeAppend, validatePath } from './memory';
+import { safeWrite, safeAppend, safeReadValidated, validatePath } from './memory';
 import { injectDisclosure } from './tools/serve';
 import { createCheckpoint } from './tools/checkpoint';
 import { safeFetch } from './tools/web';
@@ -8,13 +8,46 @@ import { executeDelegation } from './swarm';
 import * as fsTools from './tools/filesystem';
 import * as path from 'path';
 import * as fs from 'fs';
-import { exec } from 'child_process';
-import { generateImage } from './tools/image';
-import { takeScreenshot } from './tools/screenshot';
-import { recordUsage } from './economics';
+import { execFile } from 'child_process';
+import { GEMINI_MODEL, generateImage } from './tools/image';
+import { SCREENSHOT_MAX_TOKENS, takeScreenshot } from './tools/screenshot';
+import { recordImageUsage, recordUsage } from './economics';
+import { reserveSpend, settleSpend } from './budget-governor';
+import { calculateCost } from './pricing';
+import { MODEL_IDS } from './providers/provider';
+import { childEnv, redact } from './redaction';
+import { detectViolations, getSandboxBackend, sandboxCommand } from './sandbox';
+import { markPublished, scanContent } from './content-scanner';
+import { searchFiles, unsafePattern } from './tools/search';
+import { recordContentDecision, recordReviewDecision } from './moral-engine';
+import { reviewDelegateOutput } from './harm-review';
 
 let config: AgentConfig;
 let currentAwakeningNumber = 0;
+let operatorApproved = false;
+
+// Characters of read and search results returned so far this awakening
+let readCharsUsed = 0;
+let readAwakening = -1;
+
+// A viewport screenshot is roughly this many input tokens, with the prompt
+const SCREENSHOT_INPUT_TOKENS_ESTIMATE = 2000;
+
+// Actions whose results are returned to the model within the same awakening
+export const OBSERVATION_TYPES = new Set<Action['type']>(['fetch', 'execute', 'screenshot', 'read', 'search']);
+
+const MAX_OBSERVATION_CHARS = 8 * 1024;
+
+// Most one read or search may return, before the awakening's allowance is applied
+const MAX_READ_CHARS = 16 * 1024;
+const DEFAULT_READ_LINES = 400;
+const DEFAULT_SEARCH_MATCHES = 50;
+
+function truncateObservation(text: string): string {
+  return text.length > MAX_OBSERVATION_CHARS
+    ? text.slice(0, MAX_OBSERVATION_CHARS) + `\n... [truncated, ${text.length} chars total]`
+    : text;
+}
 
 /**
  * Strip LLM preamble, markdown fences, and trailing text from HTML content.
@@ -47,28 +80,170 @@ function extractHtmlContent(raw: string): string {
   return content.trim();
 }
 
+/**
+ * Scan content before it is published. Returns the error for the action's
+ * result when the publish is held back, or null to go ahead. Operator-approved
+ * actions are not scanned again — the operator has seen what they publish.
+ */
+function holdBackPublish(heldAction: Action, content: string): string | null {
+  if (operatorApproved) return null;
+  const scan = scanContent(content);
+  if (scan.decision === 'proceed') return null;
+
+  const decision = recordContentDecision(heldAction, scan, currentAwakeningNumber);
+  return scan.decision === 'block'
+    ? `Publish blocked by content scan: ${scan.explanation}`
+    : `Publish deferred for operator approval (${decision.id}): ${scan.explanation}`;
+}
+
+/** Write a page that passed the content scan, and remember it so serving it skips the scan. */
+function writePublished(logicalPath: string, content: string): void {
+  safeWrite(logicalPath, content, 'overwrite');
+  markPublished(validatePath(logicalPath));
+}
+
 export function initExecutor(cfg: AgentConfig): void {
   config = cfg;
 }
 
-export async function executeActions(actions: Action[], awakeningNumber: number = 0): Promise<ExecutionResult[]> {
-  currentAwakeningNumber = awakeningNumber;
-  const results: ExecutionResult[] = [];
+/** What an action waits for before it may start. */
+interface PlannedAction {
+  /** Earlier actions that must finish first, for any reason. */
+  waitFor: number[];
+  /** Its `after` ids, resolved to earlier actions (null if none by that id ran). */
+  dependsOn: { id: string; index: number | null }[];
+}
+
+// Actions that may read or change anything, so nothing runs alongside them
+const BARRIER_TYPES = new Set<Action['type']>(['execute', 'checkpoint']);
+
+// Each of these holds a heavy resource (a headless browser), so they run one at a time
+const SERIAL_TYPES = new Set<Action['type']>(['screenshot']);
+
+/** Comparable form of an action's path; /public/x and /x name the same page. */
+function pathKey(action: Action): string | null {
+  if (!action.path) return null;
+  return path.posix.normalize('/' + action.path.replace(/^\/+/, '')).replace(/^\/public(?=\/)/, '');
+}
+
+/**
+ * Work out the order actions must keep. Beyond explicit `after` dependencies,
+ * an action waits for earlier ones on the same path, earlier screenshots, and
+ * the last command or checkpoint — and those wait for everything before them.
+ */
+function planActions(actions: Action[], ignoreDependencies: boolean): PlannedAction[] {
+  let lastBarrier = -1;
+  const lastOnPath = new Map<string, number>();
+  const lastOfType = new Map<Action['type'], number>();
+
+  return actions.map((action, i) => {
+    const waitFor = new Set<number>();
+    if (BARRIER_TYPES.has(action.type)) {
+      for (let j = 0; j < i; j++) waitFor.add(j);
+    } else if (lastBarrier >= 0) {
+      waitFor.add(lastBarrier);
+    }
+
+    const key = pathKey(action);
+    if (key !== null) {
+      const previous = lastOnPath.get(key);
+      if (previous !== undefined) waitFor.add(previous);
+      lastOnPath.set(key, i);
+    }
+    if (SERIAL_TYPES.has(action.type)) {
+      const previous = lastOfType.get(action.type);
+      if (previous !== undefined) waitFor.add(previous);
+      lastOfType.set(action.type, i);
+    }
+    if (BARRIER_TYPES.has(action.type)) lastBarrier = i;
+
+    const dependsOn = ignoreDependencies ? [] : (action.after || []).map(id => {
+      let index: number | null = null;
+      for (let j = i - 1; j >= 0 && index === null; j--) {
+        if (actions[j].id === id) index = j;
+      }
+      if (index !== null) waitFor.add(index);
+      return { id, index };
+    });
 
-  for (const action of actions) {
+    return { waitFor: [...waitFor], dependsOn };
+  });
+}
+
+/** Why an action should not run given how its dependencies went, or null to run it. */
+function skipReason(plan: PlannedAction, condition: Action['condition'], results: ExecutionResult[]): string | null {
+  for (const { id, index } of plan.dependsOn) {
+    if (index === null) return `Skipped: depends on "${id}", which did not run before it (blocked, deferred, invalid or not written earlier).`;
+    if (results[index].skipped) return `Skipped: depends on "${id}", which was skipped.`;
+  }
+  if (plan.dependsOn.length === 0) return null;
+
+  const failed = plan.dependsOn.filter(d => !results[d.index!].success).map(d => `"${d.id}"`);
+  if (condition === 'failure') {
+    return failed.length > 0 ? null : `Skipped: runs only if ${plan.dependsOn.map(d => `"${d.id}"`).join(' or ')} failed, and none did.`;
+  }
+  return failed.length > 0 ? `Skipped: depends on ${failed.join(', ')}, which failed.` : null;
+}
+
+/** Run tasks with at most `max` in flight, starting them in the order asked. */
+function createLimiter(max: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  return async (task) => {
+    if (active >= max) await new Promise<void>(resolve => waiting.push(resolve));
+    active++;
     try {
-      const result = await executeOne(action);
-      results.push(result);
-    } catch (err) {
-      logger.error('Action execution failed', {
-        type: action.type,
-        path: action.path,
-        error: String(err),
-      });
-      results.push({ action, success: false, error: String(err) });
+      return await task();
+    } finally {
+      active--;
+      waiting.shift()?.();
     }
+  };
+}
+
+async function runOne(action: Action): Promise<ExecutionResult> {
+  try {
+    return await executeOne(action);
+  } catch (err) {
+    logger.error('Action execution failed', {
+      type: action.type,
+      path: action.path,
+      error: String(err),
+    });
+    return { action, success: false, error: String(err) };
   }
+}
+
+/**
+ * Run actions, side by side where their order doesn't matter, up to
+ * config.actionConcurrency at once. Results come back in the order given.
+ * Operator-approved actions are run without their `after` dependencies —
+ * those were decided on in an earlier awakening.
+ */
+export async function executeActions(actions: Action[], awakeningNumber: number = 0, approved: boolean = false): Promise<ExecutionResult[]> {
+  currentAwakeningNumber = awakeningNumber;
+  operatorApproved = approved;
+
+  const plans = planActions(actions, approved);
+  const limit = createLimiter(config.actionConcurrency);
+  const results: ExecutionResult[] = new Array(actions.length);
+  const finished: Promise<void>[] = [];
+
+  actions.forEach((action, i) => {
+    finished[i] = (async () => {
+      await Promise.all(plans[i].waitFor.map(j => finished[j]));
+
+      const skip = skipReason(plans[i], action.condition, results);
+      if (skip) {
+        logger.info('Action skipped', { type: action.type, id: action.id, reason: skip });
+        results[i] = { action, success: false, skipped: true, error: skip };
+        return;
+      }
+      results[i] = await limit(() => runOne(action));
+    })();
+  });
 
+  await Promise.all(finished);
   return results;
 }
 
@@ -96,6 +271,10 @@ async function executeOne(action: Action): Promise<ExecutionResult> {
       return await executeScreenshot(action);
     case 'set-schedule':
       return executeSetSchedule(action);
+    case 'read':
+      return executeRead(action);
+    case 'search':
+      return executeSearch(action);
     default:
       return { action, success: false, error: `Unknown action type: ${action.type}` };
   }
@@ -106,9 +285,18 @@ function executeWrite(action: Action): ExecutionResult {
     return { action, success: false, error: 'Write action requires a path' };
   }
 
+  // Writing into /public/ publishes just as serve does
+  const logical = path.posix.normalize('/' + action.path.replace(/^\/+/, ''));
+  if (logical.startsWith('/public/')) {
+    const held = holdBackPublish(action, action.content);
+    if (held) return { action, success: false, error: held };
+  }
+
   const mode = action.mode || 'overwrite';
   if (mode === 'append') {
     safeAppend(action.path, action.content);
+  } else if (logical.startsWith('/public/')) {
+    writePublished(action.path, action.content);
   } else {
     safeWrite(action.path, action.content, 'overwrite');
   }
@@ -132,7 +320,10 @@ function executeServe(action: Action): ExecutionResult {
     content = injectDisclosure(content);
   }
 
-  safeWrite(servePath, content, 'overwrite');
+  const held = holdBackPublish(action, content);
+  if (held) return { action, success: false, error: held };
+
+  writePublished(servePath, content);
   logger.info('Serve action executed', { path: servePath, size: content.length });
   return { action, success: true };
 }
@@ -187,7 +378,11 @@ async function executeFetch(action: Action): Promise<ExecutionResult> {
   }
 
   logger.info('Fetch action executed', { url: action.url, status: result.status });
-  return { action, success: true };
+  return {
+    action,
+    success: true,
+    observation: `URL: ${action.url}\nStatus: ${result.status}\n\n${truncateObservation(result.body)}`,
+  };
 }
 
 function executeSetSchedule(action: Action): ExecutionResult {
@@ -210,11 +405,22 @@ async function executeImage(action: Action): Promise<ExecutionResult> {
   const savePath = action.path || `/public/images/img-${Date.now()}.png`;
   const aspectRatio = action.aspectRatio || '16:9';
 
+  const estimate = calculateCost({ input_tokens: Math.ceil(prompt.length / 4), output_tokens: 0 }, GEMINI_MODEL, 1).total;
+  const reservation = reserveSpend('image', estimate);
+  if (typeof reservation === 'string') {
+    return { action, success: false, error: `Budget: image refused — ${reservation}` };
+  }
+
   const result = await generateImage(prompt, aspectRatio);
   if (!result) {
+    settleSpend(reservation, 0);
     return { action, success: false, error: 'Image generation failed — check logs' };
   }
 
+  // Record image spend before saving — the image is paid for either way
+  const cost = recordImageUsage(currentAwakeningNumber, result.model, 1, result.promptTokens);
+  settleSpend(reservation, cost);
+
   // Save the image binary to the filesystem (through path validation)
   try {
     const fullPath = validatePath(savePath);
@@ -228,9 +434,9 @@ async function executeImage(action: Action): Promise<ExecutionResult> {
       textResponse: result.textResponse?.slice(0, 100),
     });
 
-    return { action, success: true };
+    return { action, success: true, cost };
   } catch (err) {
-    return { action, success: false, error: `Failed to save image: ${String(err)}` };
+    return { action, success: false, error: `Failed to save image: ${String(err)}`, cost };
   }
 }
 
@@ -239,23 +445,49 @@ async function executeDelegate(action: Action): Promise<ExecutionResult> {
     return { action, success: false, error: 'Delegate action requires a path' };
   }
 
-  const result = await executeDelegation(action, currentAwakeningNumber);
-  if (!result) {
-    return { action, success: false, error: 'Delegation failed — sub-agent returned no content' };
+  // A delegation may spend up to SWARM_MAX_BUDGET; a cheaper tier is used if that doesn't fit
+  const reservation = reserveSpend('delegation', config.swarmMaxBudget, 'opus');
+  if (typeof reservation === 'string') {
+    return { action, success: false, error: `Budget: delegation refused — ${reservation}` };
+  }
+
+  const result = await executeDelegation(action, currentAwakeningNumber, {
+    tier: reservation.tier,
+    maxUsd: reservation.amountUsd,
+  });
+  settleSpend(reservation, result.cost);
+  if (result.content === null) {
+    return { action, success: false, error: result.error || 'Delegation failed — sub-agent returned no content', cost: result.cost };
   }
 
   // Route through the appropriate write pipeline based on taskType
   const taskType = action.taskType || 'serve';
+  const servePath = action.path.startsWith('/public/') ? action.path : `/public/${action.path}`;
+  // Held content waits as a serve or write, so approving it doesn't pay for a new delegation
+  const heldAction: Action = taskType === 'serve'
+    ? { type: 'serve', path: servePath, content: result.content }
+    : { type: 'write', path: action.path, content: result.content };
+
+  // The brief was reviewed before the delegation ran; what came back was not
+  const review = await reviewDelegateOutput(action, result.content, currentAwakeningNumber);
+  if (review && review.verdict !== 'proceed') {
+    const decision = recordReviewDecision(heldAction, review, currentAwakeningNumber);
+    const error = review.verdict === 'block'
+      ? `Delegate output blocked by harm review: ${review.rationale}`
+      : `Delegate output deferred for operator approval (${decision.id}): ${review.rationale}`;
+    return { action, success: false, error, cost: result.cost };
+  }
 
   if (taskType === 'serve') {
     // Same pipeline as executeServe — ensure /public/, inject disclosure
-    const servePath = action.path.startsWith('/public/') ? action.path : `/public/${action.path}`;
     let content = result.content;
     if (servePath.endsWith('.html') || servePath.endsWith('.htm')) {
       content = extractHtmlContent(content);
       content = injectDisclosure(content);
     }
-    safeWrite(servePath, content, 'overwrite');
+    const held = holdBackPublish(heldAction, content);
+    if (held) return { action, success: false, error: held, cost: result.cost };
+    writePublished(servePath, content);
     logger.info('Delegate serve completed', { path: servePath, size: content.length });
   } else {
     // Code — write to the specified path directly
@@ -263,7 +495,7 @@ async function executeDelegate(action: Action): Promise<ExecutionResult> {
     logger.info('Delegate code completed', { path: action.path, size: result.content.length });
   }
 
-  return { action, success: true };
+  return { action, success: true, cost: result.cost };
 }
 
 async function executeScreenshot(action: Action): Promise<ExecutionResult> {
@@ -271,13 +503,24 @@ async function executeScreenshot(action: Action): Promise<ExecutionResult> {
     return { action, success: false, error: 'Screenshot action requires a path' };
   }
 
-  const result = await takeScreenshot(action.path, action.content);
+  const estimate = calculateCost(
+    { input_tokens: SCREENSHOT_INPUT_TOKENS_ESTIMATE, output_tokens: SCREENSHOT_MAX_TOKENS },
+    MODEL_IDS.opus,
+  ).total;
+  const reservation = reserveSpend('screenshot', estimate, 'opus');
+  if (typeof reservation === 'string') {
+    return { action, success: false, error: `Budget: screenshot refused — ${reservation}` };
+  }
+
+  const result = await takeScreenshot(action.path, action.content, reservation.tier);
   if (!result) {
+    settleSpend(reservation, 0);
     return { action, success: false, error: 'Screenshot failed — check logs (budget exceeded or puppeteer unavailable)' };
   }
 
   // Record vision API usage
-  recordUsage(currentAwakeningNumber, result.usage, 'opus', 'screenshot');
+  const cost = recordUsage(currentAwakeningNumber, result.usage, reservation.tier, 'screenshot');
+  settleSpend(reservation, cost);
 
   logger.info('Screenshot action executed', {
     path: action.path,
@@ -285,7 +528,7 @@ async function executeScreenshot(action: Action): Promise<ExecutionResult> {
     analysisLength: result.analysis.length,
   });
 
-  return { action, success: true };
+  return { action, success: true, observation: result.analysis, cost };
 }
 
 function cleanupDir(dirPath: string, maxFiles: number, ext: string): void {
@@ -304,6 +547,122 @@ function cleanupDir(dirPath: string, maxFiles: number, ext: string): void {
   }
 }
 
+/**
+ * How many characters a read may return: the per-read cap, or what is left
+ * of this awakening's allowance if that is less.
+ */
+function readAllowance(): number {
+  if (readAwakening !== currentAwakeningNumber) {
+    readAwakening = currentAwakeningNumber;
+    readCharsUsed = 0;
+  }
+  return Math.max(0, Math.min(MAX_READ_CHARS, config.readCharsPerAwakening - readCharsUsed));
+}
+
+/** Validate a path the agent wants to read. A top-level directory such as /projects is allowed too. */
+function resolveReadPath(inputPath: string): string {
+  try {
+    return validatePath(inputPath);
+  } catch (err) {
+    if (!inputPath.endsWith('/')) {
+      try {
+        return validatePath(inputPath + '/');
+      } catch {
+        // Report the original error
+      }
+    }
+    throw err;
+  }
+}
+
+function executeRead(action: Action): ExecutionResult {
+  const allowance = readAllowance();
+  if (allowance === 0) {
+    return { action, success: false, error: `Read allowance for this awakening (${config.readCharsPerAwakening} chars) is used up` };
+  }
+
+  let resolved: string;
+  try {
+    resolved = resolveReadPath(action.path!);
+  } catch (err) {
+    return { action, success: false, error: `Read refused: ${(err as Error).message}` };
+  }
+
+  let body: string;
+  if (fsTools.isDirectory(resolved)) {
+    const entries = fsTools.listDir(resolved).sort().map(name => {
+      const full = path.join(resolved, name);
+      return fsTools.isDirectory(full) ? `${name}/` : `${name} (${fsTools.fileSize(full)} bytes)`;
+    });
+    body = `${action.path} — ${entries.length} entries\n${entries.join('\n')}`;
+  } else {
+    const content = safeReadValidated(action.path!);
+    if (content === null) return { action, success: false, error: `File not found: ${action.path}` };
+
+    // A final newline ends the last line rather than starting another
+    const lines = content.replace(/\n$/, '').split('\n');
+    const first = Math.min(action.offset || 1, Math.max(1, lines.length));
+    const wanted = lines.slice(first - 1, first - 1 + (action.limit || DEFAULT_READ_LINES));
+    const shown: string[] = [];
+    let size = 0;
+    for (const [i, line] of wanted.entries()) {
+      const numbered = `${first + i}\t${line}`;
+      if (size + numbered.length + 1 > allowance && shown.length > 0) break;
+      shown.push(numbered.slice(0, allowance));
+      size += numbered.length + 1;
+    }
+
+    const last = first + shown.length - 1;
+    body = `${action.path} — lines ${first}–${last} of ${lines.length}\n${shown.join('\n')}`;
+    if (last < lines.length) body += `\n[... more follows — read again with offset="${last + 1}"]`;
+  }
+
+  body = redact(body).slice(0, allowance);
+  readCharsUsed += body.length;
+  logger.info('Read action executed', { path: action.path, chars: body.length, used: readCharsUsed });
+  return { action, success: true, observation: body };
+}
+
+function executeSearch(action: Action): ExecutionResult {
+  const allowance = readAllowance();
+  if (allowance === 0) {
+    return { action, success: false, error: `Read allowance for this awakening (${config.readCharsPerAwakening} chars) is used up` };
+  }
+
+  const unsafe = action.regex ? unsafePattern(action.content) : null;
+  if (unsafe) {
+    return { action, success: false, error: `Invalid search pattern: ${unsafe}` };
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = action.regex
+      ? new RegExp(action.content)
+      : new RegExp(action.content.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  } catch (err) {
+    return { action, success: false, error: `Invalid search pattern: ${(err as Error).message}` };
+  }
+
+  let resolved: string;
+  try {
+    resolved = resolveReadPath(action.path!);
+  } catch (err) {
+    return { action, success: false, error: `Search refused: ${(err as Error).message}` };
+  }
+
+  const result = searchFiles(resolved, config.baseDir, pattern, action.limit || DEFAULT_SEARCH_MATCHES);
+  const files = new Set(result.matches.map(m => m.path)).size;
+  let body = `Search for ${JSON.stringify(action.content)} in ${action.path}: ${result.matches.length} match${result.matches.length === 1 ? '' : 'es'} in ${files} file${files === 1 ? '' : 's'} (${result.filesScanned} searched)`;
+  if (result.incomplete) body += ' — stopped early; narrow the path or raise limit';
+  for (const m of result.matches) body += `\n${m.path}:${m.line}: ${m.text}`;
+
+  body = redact(body);
+  if (body.length > allowance) body = body.slice(0, allowance) + '\n[... truncated]';
+  readCharsUsed += body.length;
+  logger.info('Search action executed', { path: action.path, matches: result.matches.length, chars: body.length });
+  return { action, success: true, observation: body };
+}
+
 async function executeCommand(action: Action): Promise<ExecutionResult> {
   const command = action.content;
   if (!command) {
@@ -315,18 +674,35 @@ async function executeCommand(action: Action): Promise<ExecutionResult> {
     ? (config.testing ? path.join(config.baseDir, action.workingDir.replace(/^\/+/, '')) : action.workingDir)
     : (config.testing ? path.join(config.baseDir, 'projects') : '/projects');
 
+  const sandboxed = sandboxCommand(command, workingDir);
+  if (typeof sandboxed === 'string') {
+    return { action, success: false, error: sandboxed };
+  }
+
   const startTime = Date.now();
 
   return new Promise((resolve) => {
-    const child = exec(command, {
+    execFile(sandboxed.file, sandboxed.args, {
       timeout,
       cwd: workingDir,
       maxBuffer: 10 * 1024 * 1024,
-      env: { ...process.env },
-    }, (error, stdout, stderr) => {
+      env: childEnv(),
+      uid: sandboxed.uid,
+      gid: sandboxed.gid,
+    }, (error, rawStdout, rawStderr) => {
+      const stdout = redact(rawStdout);
+      const stderr = redact(rawStderr);
       const duration_ms = Date.now() - startTime;
-      const timedOut = error?.killed === true;
+      const outputOverflow = error?.code === 'ERR_CHILD_PROCESS_STDIO_MAXBUFFER';
+      const timedOut = error?.killed === true && !outputOverflow;
       const exitCode = error ? (error.code ?? null) : 0;
+      const limitViolations = detectViolations({
+        exitCode: typeof exitCode === 'number' ? exitCode : null,
+        signal: error?.signal ?? null,
+        timedOut,
+        outputOverflow,
+        stderr,
+      });
 
       // Truncate output to 50KB each
       const maxOutput = 50 * 1024;
@@ -344,6 +720,8 @@ async function executeCommand(action: Action): Promise<ExecutionResult> {
         stderr: truncStderr,
         duration_ms,
         timedOut,
+        sandbox: getSandboxBackend(),
+        ...(limitViolations.length > 0 && { limitViolations }),
       };
 
       // Save execution log
@@ -363,12 +741,22 @@ async function executeCommand(action: Action): Promise<ExecutionResult> {
         exitCode,
         duration_ms,
         timedOut,
+        ...(limitViolations.length > 0 && { limitViolations }),
       });
 
+      const observation = [
+        `$ ${command}`,
+        `Exit code: ${exitCode}${timedOut ? ' (timed out)' : ''} | Duration: ${duration_ms}ms`,
+        limitViolations.length > 0 ? `Sandbox limits exceeded: ${limitViolations.join(', ')}` : '',
+        stdout ? `[stdout]\n${truncateObservation(stdout)}` : '',
+        stderr ? `[stderr]\n${truncateObservation(stderr)}` : '',
+      ].filter(Boolean).join('\n');
+
       resolve({
         action,
         success: exitCode === 0,
         error: exitCode !== 0 ? `Exit code ${exitCode}${timedOut ? ' (timed out)' : ''}: ${truncStderr.slice(0, 200)}` : undefined,
+        observation,
       });
     });
   });
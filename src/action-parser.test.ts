@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { findUnclosedAction, parseActionsWithReport } from './action-parser';
+
+describe('action parser', () => {
+  it('reads attributes and trims the content', () => {
+    const { actions, issues } = parseActionsWithReport('Some prose.\n<action type="write" path="/self/a.md" mode="append">\n  hello\n</action>');
+    expect(issues).toEqual([]);
+    expect(actions).toEqual([{ type: 'write', path: '/self/a.md', mode: 'append', content: 'hello' }]);
+  });
+
+  it('accepts single quotes, escaped quotes and entities in attribute values', () => {
+    const { actions } = parseActionsWithReport(
+      `<action type='checkpoint' label="it's \\"done\\"" task='tidy-up'>a</action>` +
+      '<action type="checkpoint" label="fish &amp; chips &#x2014; &lt;b&gt;">b</action>',
+    );
+    expect(actions[0]).toMatchObject({ label: 'it\'s "done"', task: 'tidy-up' });
+    expect(actions[1]).toMatchObject({ label: 'fish & chips — <b>' });
+  });
+
+  it('takes CDATA literally, including </action> and surrounding whitespace', () => {
+    const { actions } = parseActionsWithReport(
+      '<action type="serve" path="/public/x.html"><![CDATA[  <p>End with </action></p>  ]]></action>',
+    );
+    expect(actions[0].content).toBe('  <p>End with </action></p>  ');
+  });
+
+  it('keeps a complete nested action as content', () => {
+    const { actions } = parseActionsWithReport(
+      '<action type="serve" path="/public/help.html">Example: <action type="think">hi</action> done</action>',
+    );
+    expect(actions).toHaveLength(1);
+    expect(actions[0].content).toBe('Example: <action type="think">hi</action> done');
+  });
+
+  it('reads one action or a list from an action-json block', () => {
+    const text = [
+      '```action-json',
+      '[{"type": "write", "path": "/projects/a.js", "content": "if (a < b) {}\\n"},',
+      ' {"type": "think", "content": "done", "after": ["one", "two"]}]',
+      '```',
+    ].join('\n');
+    const { actions, issues } = parseActionsWithReport(text);
+    expect(issues).toEqual([]);
+    expect(actions).toEqual([
+      { type: 'write', path: '/projects/a.js', content: 'if (a < b) {}\n' },
+      { type: 'think', content: 'done', after: ['one', 'two'] },
+    ]);
+  });
+
+  it('reports invalid JSON with its position', () => {
+    const { actions, issues } = parseActionsWithReport('intro\n```action-json\n{"type": "think",}\n```');
+    expect(actions).toEqual([]);
+    expect(issues[0]).toMatchObject({ kind: 'syntax', line: 3 });
+  });
+
+  it('reports a malformed tag and carries on with the next action', () => {
+    const { actions, issues } = parseActionsWithReport(
+      '<action type=think>bad</action>\n<action type="think">good</action>',
+    );
+    expect(issues[0]).toMatchObject({ kind: 'syntax', line: 1, column: 14 });
+    expect(issues[0].message).toMatch(/must be in quotes/);
+    expect(actions).toEqual([{ type: 'think', content: 'good' }]);
+  });
+
+  it('reports a duplicate attribute', () => {
+    const { issues } = parseActionsWithReport('<action type="think" type="write">x</action>');
+    expect(issues[0].message).toMatch(/attribute type is given twice/);
+  });
+
+  it('passes schema problems through as issues', () => {
+    const { actions, issues } = parseActionsWithReport('<action type="fly">x</action><action type="serve" path="a.html">x</action>');
+    expect(actions).toEqual([]);
+    expect(issues.map(i => i.kind)).toEqual(['unknown-type', 'invalid-attribute']);
+  });
+
+  it('finds the block a cut-off response ends inside', () => {
+    const text = '<action type="think">done</action>\n<action type="serve" path="/public/a.html"><p>half a pa';
+    expect(parseActionsWithReport(text).actions).toHaveLength(1);
+    expect(findUnclosedAction(text)?.index).toBe(text.indexOf('<action type="serve"'));
+    expect(findUnclosedAction('<action type="think">done</action>')).toBeNull();
+  });
+
+  it('keeps an unclosed nested <action as text and reports where it is', () => {
+    const text = '<action type="serve" path="/public/help.html">\nWrite <action type="think"> to think.\n</action>';
+    const { actions, issues } = parseActionsWithReport(text);
+    expect(actions).toEqual([{ type: 'serve', path: '/public/help.html', content: 'Write <action type="think"> to think.' }]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'syntax', line: 2, column: 7 });
+    expect(findUnclosedAction(text)).toBeNull();
+  });
+
+  it('does not let a stray <action take the closing tag of the block around it', () => {
+    const text = '<action type="serve" path="/public/a.html">Tags start with <action and end with </action>\n<action type="think">next</action>';
+    const { actions, issues } = parseActionsWithReport(text);
+    expect(actions.map(a => a.content)).toEqual(['Tags start with <action and end with', 'next']);
+    expect(issues).toHaveLength(1);
+  });
+
+  it('keeps CDATA inside a nested block as written', () => {
+    const { actions, issues } = parseActionsWithReport(
+      '<action type="serve" path="/public/a.html"><action type="think"><![CDATA[</action>]]></action></action>',
+    );
+    expect(issues).toEqual([]);
+    expect(actions[0].content).toBe('<action type="think"><![CDATA[</action>]]></action>');
+  });
+
+  it('still treats a cut-off block as unclosed when a nested tag is incomplete', () => {
+    const text = '<action type="serve" path="/public/a.html">Example: <action type="think">hal';
+    expect(parseActionsWithReport(text).actions).toEqual([]);
+    expect(findUnclosedAction(text)?.index).toBe(0);
+  });
+
+  it('allows > and / inside quoted attribute values', () => {
+    const { actions, issues } = parseActionsWithReport('<action type="checkpoint" label="a > b / c">x</action>');
+    expect(issues).toEqual([]);
+    expect(actions[0]).toMatchObject({ label: 'a > b / c' });
+  });
+
+  it('reports an action-json entry whose content is not a string', () => {
+    const { actions, issues } = parseActionsWithReport('```action-json\n{"type": "think", "content": 42}\n```');
+    expect(actions).toEqual([]);
+    expect(issues[0].message).toMatch(/content must be a string/);
+  });
+
+  it('scans a response full of unclosed nested tags in linear time', () => {
+    const cutOff = '<action type="serve" path="/public/a.html">' + '<action type="think">x '.repeat(3000);
+    const mentions = '<action type="serve" path="/public/docs.html">' + 'Write <action type="think"> blocks. '.repeat(3000) + '</action>';
+    const started = Date.now();
+    expect(findUnclosedAction(cutOff)?.index).toBe(0);
+    const { actions, issues } = parseActionsWithReport(mentions);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(actions).toHaveLength(1);
+    // Capped, with the rest counted in one issue
+    expect(issues).toHaveLength(21);
+    expect(issues[20].message).toMatch(/2980 more <action tags/);
+  });
+});
@@ -1,59 +1,405 @@
 import { Action } from './types';
 import { logger } from './logger';
+import { ActionIssue, validateAction } from './action-schema';
 
-const ACTION_REGEX = /<action\s+([^>]*)>([\s\S]*?)<\/action>/g;
-const ATTR_REGEX = /([\w-]+)="([^"]*)"/g;
+// Where a block may start: an <action tag, or a ```action-json fence at the start of a line
+const BLOCK_START = /<action(?=\s)|^ {0,3}```action-json[ \t]*$/gm;
 
-const VALID_TYPES = new Set(['write', 'serve', 'think', 'checkpoint', 'message', 'fetch', 'set-schedule', 'execute', 'image', 'delegate', 'screenshot']);
+// Inside action content: CDATA, a nested action, or a closing tag
+const CONTENT_TOKEN = /<!\[CDATA\[|<action(?=[\s>])|<\/action\s*>/g;
 
-export function parseActions(text: string): Action[] {
-  const actions: Action[] = [];
-  let match: RegExpExecArray | null;
+const FENCE_CLOSE = /^ {0,3}```[ \t]*$/gm;
+const ATTR_NAME = /[A-Za-z_][\w.-]*/y;
+
+const ENTITIES: Record<string, string> = { quot: '"', apos: "'", amp: '&', lt: '<', gt: '>' };
+
+const EXCERPT_CHARS = 200;
+
+const NESTED_TAG_MESSAGE = 'this <action is not a complete action block, so it is kept as text';
+
+// Nested tags reported per response; the rest are counted in one issue
+const MAX_NESTED_ISSUES = 20;
+
+// How far a nested tag's attributes may run before the tag is taken as text
+const MAX_NESTED_TAG_CHARS = 2000;
+
+// Problems written to the log per response
+const MAX_LOGGED_PROBLEMS = 20;
+
+/** One action block as written, before schema validation. */
+interface ScannedAction {
+  attrs: Record<string, string>;
+  content: string;
+  start: number;
+  end: number;
+}
+
+interface ScanResult {
+  /** Blocks and syntax problems, in the order they appear. */
+  entries: (ScannedAction | ActionIssue)[];
+  /** Start of a block the text ends inside — what a max_tokens cut-off leaves. */
+  unclosed: number | null;
+}
+
+interface OpenTag {
+  contentStart: number;
+  selfClosing: boolean;
+}
+
+interface TagError {
+  index: number;
+  message: string;
+}
+
+/** One response being scanned, with what is worked out once for all of it. */
+interface Scanner {
+  text: string;
+  /** Index of the first character of each line. */
+  lineStarts: number[];
+  /** Content from here on holds no </action> that isn't closing a nested block. */
+  pairedFrom: number;
+  /** Nested tags reported as text so far, and where the first unreported one is. */
+  nestedReported: number;
+  nestedUnreported: number;
+  firstUnreported: number;
+}
+
+function createScanner(text: string): Scanner {
+  const lineStarts = [0];
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+  return { text, lineStarts, pairedFrom: Infinity, nestedReported: 0, nestedUnreported: 0, firstUnreported: 0 };
+}
+
+function position(s: Scanner, index: number): { line: number; column: number } {
+  let low = 0;
+  let high = s.lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (s.lineStarts[mid] <= index) low = mid;
+    else high = mid - 1;
+  }
+  return { line: low + 1, column: index - s.lineStarts[low] + 1 };
+}
+
+function syntaxIssue(s: Scanner, start: number, index: number, message: string): ActionIssue {
+  const { line, column } = position(s, index);
+  return {
+    kind: 'syntax',
+    line,
+    column,
+    message: `Line ${line}, column ${column}: ${message}`,
+    excerpt: s.text.slice(start, start + EXCERPT_CHARS),
+  };
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(?:#(\d+)|#x([0-9a-f]+)|(quot|apos|amp|lt|gt));/gi, (whole, dec?: string, hex?: string, name?: string) => {
+    if (name) return ENTITIES[name.toLowerCase()];
+    const code = dec ? parseInt(dec, 10) : parseInt(hex!, 16);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : whole;
+  });
+}
+
+/**
+ * Read the attributes of an <action tag starting at `index` (just past the
+ * tag name). Returns where the content starts, what is wrong with the tag, or
+ * null if the text (or the part of it before `end`) ends first.
+ */
+function scanOpenTag(text: string, index: number, attrs: Record<string, string>, end = text.length): OpenTag | TagError | null {
+  let p = index;
+  const skipSpace = (): void => {
+    while (p < end && /\s/.test(text[p])) p++;
+  };
+
+  for (;;) {
+    skipSpace();
+    if (p >= end) return null;
+    if (text[p] === '>') return { contentStart: p + 1, selfClosing: false };
+    if (text.startsWith('/>', p)) return { contentStart: p + 2, selfClosing: true };
+
+    ATTR_NAME.lastIndex = p;
+    const name = ATTR_NAME.exec(text)?.[0];
+    if (!name) return { index: p, message: `unexpected ${JSON.stringify(text[p])} in action tag` };
+    const nameAt = p;
+    p += name.length;
+
+    skipSpace();
+    if (p >= end) return null;
+    if (text[p] !== '=') return { index: nameAt, message: `attribute ${name} has no value` };
+    p++;
+    skipSpace();
+    if (p >= end) return null;
 
-  // Reset regex state
-  ACTION_REGEX.lastIndex = 0;
+    const quote = text[p];
+    if (quote !== '"' && quote !== "'") return { index: p, message: `the value of ${name} must be in quotes` };
+    p++;
 
-  while ((match = ACTION_REGEX.exec(text)) !== null) {
-    const attrString = match[1];
-    const content = match[2].trim();
+    // A backslash escapes the quote or another backslash; elsewhere it is kept as written
+    let value = '';
+    for (;;) {
+      if (p >= end) return null;
+      const ch = text[p];
+      if (ch === '\\' && (text[p + 1] === quote || text[p + 1] === '\\')) {
+        value += text[p + 1];
+        p += 2;
+      } else if (ch === quote) {
+        p++;
+        break;
+      } else {
+        value += ch;
+        p++;
+      }
+    }
+
+    if (name in attrs) return { index: nameAt, message: `attribute ${name} is given twice` };
+    attrs[name] = decodeEntities(value);
+  }
+}
+
+interface ContentPiece {
+  text: string;
+  literal: boolean;
+}
+
+interface ScannedBody {
+  pieces: ContentPiece[];
+  end: number;
+  /** Where nested <action tags were taken as text. */
+  textTags: number[];
+}
+
+/**
+ * Where a nested block whose tag name ends at `index` finishes, or null if
+ * it is not a complete block. A nested block holds text and CDATA only — it
+ * ends at the first </action> after its tag.
+ */
+function nestedBlockEnd(text: string, index: number): number | null {
+  const tag = scanOpenTag(text, index, {}, Math.min(text.length, index + MAX_NESTED_TAG_CHARS));
+  if (!tag || 'message' in tag) return null;
+  if (tag.selfClosing) return tag.contentStart;
+
+  let p = tag.contentStart;
+  for (;;) {
+    CONTENT_TOKEN.lastIndex = p;
+    const token = CONTENT_TOKEN.exec(text);
+    if (!token || token[0] === '<action') return null;
+    if (token[0] !== '<![CDATA[') return CONTENT_TOKEN.lastIndex;
+    const close = text.indexOf(']]>', CONTENT_TOKEN.lastIndex);
+    if (close < 0) return null;
+    p = close + 3;
+  }
+}
+
+/**
+ * The content from `index` to the </action> that closes it, or null if the
+ * text ends first. With `nesting`, an <action> block inside the content is
+ * kept whole, its </action> included; otherwise every nested tag is text.
+ */
+function scanBody(text: string, index: number, nesting: boolean): ScannedBody | null {
+  const pieces: ContentPiece[] = [];
+  const textTags: number[] = [];
+  let p = index;
+
+  for (;;) {
+    CONTENT_TOKEN.lastIndex = p;
+    const token = CONTENT_TOKEN.exec(text);
+    if (!token) return null;
+    const tokenEnd = CONTENT_TOKEN.lastIndex;
+
+    if (token[0] === '<![CDATA[') {
+      const close = text.indexOf(']]>', tokenEnd);
+      if (close < 0) return null;
+      pieces.push({ text: text.slice(p, token.index), literal: false });
+      pieces.push({ text: text.slice(tokenEnd, close), literal: true });
+      p = close + 3;
+    } else if (token[0] === '<action') {
+      const end = nesting ? nestedBlockEnd(text, tokenEnd) : null;
+      if (end !== null) {
+        // Kept as written, CDATA markers and all
+        pieces.push({ text: text.slice(p, end), literal: false });
+        p = end;
+      } else {
+        textTags.push(token.index);
+        pieces.push({ text: text.slice(p, tokenEnd), literal: false });
+        p = tokenEnd;
+      }
+    } else {
+      pieces.push({ text: text.slice(p, token.index), literal: false });
+      return { pieces, end: tokenEnd, textTags };
+    }
+  }
+}
+
+/**
+ * Read action content from `index` to the matching </action>. CDATA sections
+ * are taken literally, and complete <action> blocks inside the content (a
+ * page showing examples, say) are kept as written. If the content never
+ * closes that way, nested tags are text and the first </action> closes it —
+ * so a stray `<action ` cannot swallow the closing tag. Each nested tag kept
+ * as text is reported, up to MAX_NESTED_ISSUES per response.
+ */
+function scanContent(s: Scanner, index: number): { content: string; end: number; issues: ActionIssue[] } | null {
+  // A failed nested reading from earlier in the response fails from here too
+  let body = index < s.pairedFrom ? scanBody(s.text, index, true) : null;
+  if (!body) {
+    s.pairedFrom = Math.min(s.pairedFrom, index);
+    body = scanBody(s.text, index, false);
+  }
+  if (!body) return null;
+  const { pieces, end } = body;
+
+  const issues: ActionIssue[] = [];
+  for (const at of body.textTags) {
+    if (s.nestedReported < MAX_NESTED_ISSUES) {
+      s.nestedReported++;
+      issues.push(syntaxIssue(s, at, at, NESTED_TAG_MESSAGE));
+    } else if (s.nestedUnreported++ === 0) {
+      s.firstUnreported = at;
+    }
+  }
+
+  // Whitespace around the content is trimmed, but never inside a CDATA section
+  const first = pieces.findIndex(piece => piece.literal || piece.text.trim());
+  const last = pieces.length - 1 - [...pieces].reverse().findIndex(piece => piece.literal || piece.text.trim());
+  if (first < 0) return { content: '', end, issues };
+  const kept = pieces.slice(first, last + 1).map(piece => ({ ...piece }));
+  if (!kept[0].literal) kept[0].text = kept[0].text.trimStart();
+  if (!kept[kept.length - 1].literal) kept[kept.length - 1].text = kept[kept.length - 1].text.trimEnd();
+  return { content: kept.map(piece => piece.text).join(''), end, issues };
+}
+
+/** The actions in a ```action-json fence: one object or an array of them. */
+function parseJsonBlock(s: Scanner, start: number, bodyStart: number, body: string): (ScannedAction | ActionIssue)[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch (err) {
+    const message = (err as Error).message;
+    const at = message.match(/position (\d+)/);
+    return [syntaxIssue(s, start, bodyStart + (at ? parseInt(at[1], 10) : 0), `invalid JSON — ${message}`)];
+  }
+
+  const entries: (ScannedAction | ActionIssue)[] = [];
+  const end = bodyStart + body.length;
+  for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      entries.push(syntaxIssue(s, start, bodyStart, 'each action-json entry must be an object'));
+      continue;
+    }
 
-    // Parse attributes
     const attrs: Record<string, string> = {};
-    let attrMatch: RegExpExecArray | null;
-    ATTR_REGEX.lastIndex = 0;
+    let content = '';
+    let valid = true;
+    for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+      if (key === 'content') {
+        if (typeof value !== 'string') {
+          entries.push(syntaxIssue(s, start, bodyStart, 'content must be a string'));
+          valid = false;
+        } else {
+          content = value;
+        }
+      } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        attrs[key] = String(value);
+      } else if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+        // A list attribute such as "after", written the way the tag form would
+        attrs[key] = value.join(',');
+      } else {
+        entries.push(syntaxIssue(s, start, bodyStart, `${key} must be a string, number, boolean or list of strings`));
+        valid = false;
+      }
+    }
+    if (valid) entries.push({ attrs, content, start, end });
+  }
+  return entries;
+}
+
+/** Find every action block in a response, in the order written. */
+function scan(text: string): ScanResult {
+  const s = createScanner(text);
+  const result: ScanResult = { entries: [], unclosed: null };
+  let p = 0;
+
+  for (;;) {
+    BLOCK_START.lastIndex = p;
+    const start = BLOCK_START.exec(text);
+    if (!start) break;
 
-    while ((attrMatch = ATTR_REGEX.exec(attrString)) !== null) {
-      attrs[attrMatch[1]] = attrMatch[2];
+    if (start[0] !== '<action') {
+      const bodyStart = start.index + start[0].length + 1;
+      FENCE_CLOSE.lastIndex = bodyStart;
+      const close = FENCE_CLOSE.exec(text);
+      if (!close) {
+        result.unclosed = start.index;
+        break;
+      }
+      result.entries.push(...parseJsonBlock(s, start.index, bodyStart, text.slice(bodyStart, close.index)));
+      p = close.index + close[0].length;
+      continue;
     }
 
-    const type = attrs.type;
-    if (!type || !VALID_TYPES.has(type)) {
-      logger.warn('Skipping action with invalid type', { type, attrs });
+    const attrs: Record<string, string> = {};
+    const tag = scanOpenTag(text, start.index + start[0].length, attrs);
+    if (tag && 'message' in tag) {
+      result.entries.push(syntaxIssue(s, start.index, tag.index, tag.message));
+      // Skip the malformed action's content rather than reading actions out of it
+      const close = text.indexOf('</action', tag.index);
+      p = close >= 0 ? close + '</action'.length : tag.index + 1;
       continue;
     }
 
-    const action: Action = {
-      type: type as Action['type'],
-      content,
-    };
+    const body = tag && (tag.selfClosing ? { content: '', end: tag.contentStart, issues: [] } : scanContent(s, tag.contentStart));
+    if (!body) {
+      result.unclosed = start.index;
+      break;
+    }
+    result.entries.push({ attrs, content: body.content, start: start.index, end: body.end }, ...body.issues);
+    p = body.end;
+  }
 
-    if (attrs.path) action.path = attrs.path;
-    if (attrs.mode) action.mode = attrs.mode as 'append' | 'overwrite';
-    if (attrs.to) action.to = attrs.to;
-    if (attrs.url) action.url = attrs.url;
-    if (attrs.cron) action.cron = attrs.cron;
-    if (attrs.label) action.label = attrs.label;
-    if (attrs.timeout) action.timeout = parseInt(attrs.timeout, 10);
-    if (attrs.workingDir) action.workingDir = attrs.workingDir;
-    if (attrs.aspectRatio) action.aspectRatio = attrs.aspectRatio;
-    if (attrs['task-type']) action.taskType = attrs['task-type'] as 'serve' | 'code';
+  if (s.nestedUnreported > 0) {
+    result.entries.push(syntaxIssue(s, s.firstUnreported, s.firstUnreported,
+      `${s.nestedUnreported} more <action tags are not complete action blocks and are kept as text`));
+  }
+  return result;
+}
+
+/**
+ * Parse and validate every action block. Actions that don't fit their type's
+ * schema are left out of `actions` and described in `issues`, so the agent can
+ * be told what went wrong. A block the text ends inside is not reported here —
+ * see findUnclosedAction.
+ */
+export function parseActionsWithReport(text: string): { actions: Action[]; issues: ActionIssue[] } {
+  const actions: Action[] = [];
+  const issues: ActionIssue[] = [];
 
-    actions.push(action);
+  for (const block of scan(text).entries) {
+    if ('kind' in block) {
+      issues.push(block);
+      continue;
+    }
+    const excerpt = text.slice(block.start, Math.min(block.end, block.start + EXCERPT_CHARS));
+    const result = validateAction(block.attrs, block.content, excerpt);
+    if (Array.isArray(result)) {
+      issues.push(...result);
+      continue;
+    }
+    actions.push(result);
   }
 
-  if (actions.length === 0 && text.includes('<action')) {
-    logger.warn('Found <action tags but could not parse any valid actions');
+  if (issues.length > 0) {
+    logger.warn('Skipping invalid actions', { count: issues.length, problems: issues.slice(0, MAX_LOGGED_PROBLEMS).map(i => i.message) });
   }
 
-  return actions;
+  return { actions, issues };
+}
+
+/**
+ * Locate an action block opened and never closed — what a response cut off
+ * by max_tokens leaves behind.
+ */
+export function findUnclosedAction(text: string): { index: number; excerpt: string } | null {
+  const { unclosed } = scan(text);
+  if (unclosed === null) return null;
+  return { index: unclosed, excerpt: text.slice(unclosed, unclosed + EXCERPT_CHARS) };
 }
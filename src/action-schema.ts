@@ -0,0 +1,229 @@
+import { Action, ActionParseFailure } from './types';
+
+export interface AttributeSpec {
+  kind: 'string' | 'path' | 'url' | 'integer' | 'boolean' | 'enum' | 'cron' | 'list';
+  required?: boolean;
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  /** Where the value goes on the Action, when the name differs. */
+  field?: keyof Action;
+  /** Another attribute that must be given alongside this one. */
+  requires?: string;
+}
+
+export interface ActionSchema {
+  attributes: Record<string, AttributeSpec>;
+  content: 'required' | 'optional';
+  /** An attribute that may be given as the content instead. */
+  contentFallback?: string;
+}
+
+/** A problem with one action, before awakening and turn are known. */
+export type ActionIssue = Omit<ActionParseFailure, 'awakening' | 'turn'>;
+
+// Image ratios the generation model accepts
+const ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'] as const;
+
+const ID_PATTERN = /^[\w.-]{1,40}$/;
+
+// Accepted on every action type
+const COMMON_ATTRIBUTES: Record<string, AttributeSpec> = {
+  task: { kind: 'string', pattern: /^[\w.-]{1,80}$/ },
+  project: { kind: 'string', pattern: /^[\w.-]{1,80}$/ },
+  id: { kind: 'string', pattern: ID_PATTERN },
+  after: { kind: 'list', pattern: ID_PATTERN },
+  if: { kind: 'enum', values: ['success', 'failure'], field: 'condition', requires: 'after' },
+};
+
+export const ACTION_SCHEMAS: Record<Action['type'], ActionSchema> = {
+  write: {
+    attributes: {
+      path: { kind: 'path', required: true },
+      mode: { kind: 'enum', values: ['append', 'overwrite'] },
+    },
+    content: 'optional',
+  },
+  serve: {
+    attributes: { path: { kind: 'path', required: true } },
+    content: 'required',
+  },
+  think: { attributes: {}, content: 'optional' },
+  checkpoint: {
+    attributes: { label: { kind: 'string', max: 200 } },
+    content: 'optional',
+  },
+  message: {
+    // Becomes part of the outbox filename
+    attributes: { to: { kind: 'string', pattern: /^[\w.@-]{1,64}$/ } },
+    content: 'required',
+  },
+  fetch: {
+    attributes: { url: { kind: 'url', required: true } },
+    content: 'optional',
+  },
+  'set-schedule': {
+    attributes: { cron: { kind: 'cron' } },
+    content: 'optional',
+    contentFallback: 'cron',
+  },
+  execute: {
+    attributes: {
+      timeout: { kind: 'integer', min: 1000, max: 600000 },
+      workingDir: { kind: 'path' },
+    },
+    content: 'required',
+  },
+  image: {
+    attributes: {
+      path: { kind: 'path' },
+      aspectRatio: { kind: 'enum', values: ASPECT_RATIOS },
+    },
+    content: 'required',
+  },
+  delegate: {
+    attributes: {
+      path: { kind: 'path', required: true },
+      'task-type': { kind: 'enum', values: ['serve', 'code'], field: 'taskType' },
+    },
+    content: 'required',
+  },
+  screenshot: {
+    attributes: { path: { kind: 'path', required: true } },
+    content: 'optional',
+  },
+  read: {
+    attributes: {
+      path: { kind: 'path', required: true },
+      offset: { kind: 'integer', min: 1, max: 1000000 },
+      limit: { kind: 'integer', min: 1, max: 2000 },
+    },
+    content: 'optional',
+  },
+  search: {
+    attributes: {
+      path: { kind: 'path', required: true },
+      limit: { kind: 'integer', min: 1, max: 200 },
+      regex: { kind: 'boolean' },
+    },
+    content: 'required',
+  },
+};
+
+function splitList(value: string): string[] {
+  return value.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/** Why a value doesn't fit its spec, or null if it does. */
+function checkValue(name: string, value: string, spec: AttributeSpec): string | null {
+  switch (spec.kind) {
+    case 'path':
+      if (!value.startsWith('/')) return `${name}="${value}" must be an absolute path starting with /`;
+      if (value.split('/').includes('..')) return `${name}="${value}" must not contain ..`;
+      break;
+    case 'url':
+      try {
+        const url = new URL(value);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return `${name}="${value}" must be an http or https URL`;
+      } catch {
+        return `${name}="${value}" is not a valid URL`;
+      }
+      break;
+    case 'integer': {
+      if (!/^\d+$/.test(value)) return `${name}="${value}" must be a whole number`;
+      const n = parseInt(value, 10);
+      if (spec.min !== undefined && n < spec.min) return `${name}="${value}" is below the minimum of ${spec.min}`;
+      if (spec.max !== undefined && n > spec.max) return `${name}="${value}" is above the maximum of ${spec.max}`;
+      break;
+    }
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') return `${name}="${value}" must be true or false`;
+      break;
+    case 'enum':
+      if (!spec.values!.includes(value)) return `${name}="${value}" must be one of: ${spec.values!.join(', ')}`;
+      break;
+    case 'cron':
+      if (value.trim().split(/\s+/).length !== 5) return `${name}="${value}" must be a five-field cron expression`;
+      break;
+    case 'string':
+      if (spec.max !== undefined && value.length > spec.max) return `${name} is longer than ${spec.max} characters`;
+      break;
+    case 'list': {
+      const items = splitList(value);
+      if (items.length === 0) return `${name} must name at least one id`;
+      const bad = items.find(item => spec.pattern && !spec.pattern.test(item));
+      return bad === undefined ? null : `${name} has "${bad}", which is not a valid id`;
+    }
+  }
+  if (spec.pattern && !spec.pattern.test(value)) return `${name}="${value}" has characters that are not allowed`;
+  return null;
+}
+
+/**
+ * Check one action's attributes and content against its type's schema.
+ * Returns the typed Action, or every problem found — an action with any
+ * problem is not executed.
+ */
+export function validateAction(attrs: Record<string, string>, content: string, excerpt: string): Action | ActionIssue[] {
+  const type = attrs.type;
+  if (!type || !(type in ACTION_SCHEMAS)) {
+    return [{
+      kind: 'unknown-type',
+      type,
+      message: type
+        ? `Unknown action type "${type}". Valid types: ${Object.keys(ACTION_SCHEMAS).join(', ')}.`
+        : 'Action has no type attribute.',
+      excerpt,
+    }];
+  }
+
+  const schema = ACTION_SCHEMAS[type as Action['type']];
+  const specs = { ...COMMON_ATTRIBUTES, ...schema.attributes };
+  const issues: ActionIssue[] = [];
+  const issue = (kind: ActionIssue['kind'], message: string, attribute?: string): void => {
+    issues.push({ kind, type, attribute, message: `${type}: ${message}`, excerpt });
+  };
+
+  const action: Action = { type: type as Action['type'], content };
+  for (const [name, value] of Object.entries(attrs)) {
+    if (name === 'type') continue;
+    const spec = specs[name];
+    if (!spec) {
+      issue('unknown-attribute', `unknown attribute "${name}" (allowed: ${Object.keys(specs).join(', ') || 'none'})`, name);
+      continue;
+    }
+    const problem = checkValue(name, value, spec);
+    if (problem) {
+      issue('invalid-attribute', problem, name);
+      continue;
+    }
+    if (spec.requires && attrs[spec.requires] === undefined) {
+      issue('missing-attribute', `${name} needs the ${spec.requires} attribute as well`, spec.requires);
+      continue;
+    }
+    const field = spec.field || name as keyof Action;
+    (action as unknown as Record<string, unknown>)[field] =
+      spec.kind === 'integer' ? parseInt(value, 10)
+        : spec.kind === 'boolean' ? value === 'true'
+          : spec.kind === 'list' ? splitList(value)
+            : value;
+  }
+
+  for (const [name, spec] of Object.entries(schema.attributes)) {
+    if (spec.required && attrs[name] === undefined) issue('missing-attribute', `the ${name} attribute is required`, name);
+  }
+
+  if (schema.contentFallback && attrs[schema.contentFallback] === undefined) {
+    const name = schema.contentFallback;
+    if (!content) issue('missing-attribute', `give the ${name} attribute or put it in the content`, name);
+    else {
+      const problem = checkValue(name, content.trim(), schema.attributes[name]);
+      if (problem) issue('invalid-attribute', problem, name);
+    }
+  } else if (schema.content === 'required' && !content) {
+    issue('missing-content', 'the content must not be empty');
+  }
+
+  return issues.length > 0 ? issues : action;
+}
@@ -0,0 +1,124 @@
+import * as path from 'path';
+import { Action, AgentConfig, DecisionRecord, DeferredAction, DeferredReport, ExecutionResult } from './types';
+import { logger } from './logger';
+import * as fsTools from './tools/filesystem';
+
+// Resolved entries kept for the record once reported
+const MAX_RESOLVED = 200;
+
+let queuePath = '';
+
+/**
+ * The queue is kept with the ledger, in a directory private to the
+ * supervisor's user, so the agent cannot approve its own deferred actions.
+ * Where its commands could still reach it, approvals are not acted on.
+ */
+export function initApprovalQueue(config: AgentConfig): void {
+  queuePath = path.join(config.ledgerDir, 'approval-queue.json');
+}
+
+function readQueue(): DeferredAction[] {
+  const content = fsTools.readFile(queuePath);
+  if (!content) return [];
+  try {
+    return JSON.parse(content) as DeferredAction[];
+  } catch {
+    logger.error('Could not parse approval queue');
+    return [];
+  }
+}
+
+function writeQueue(queue: DeferredAction[]): void {
+  // Drop the oldest reported entries; pending and unreported ones always stay
+  const resolved = queue.filter(d => d.status !== 'pending' && d.reported);
+  const excess = new Set(resolved.slice(0, Math.max(0, resolved.length - MAX_RESOLVED)).map(d => d.id));
+
+  try {
+    fsTools.ensureDir(path.dirname(queuePath));
+    fsTools.writeFile(queuePath, JSON.stringify(queue.filter(d => !excess.has(d.id)), null, 2));
+  } catch (err) {
+    logger.error('Failed to save approval queue', { error: String(err) });
+  }
+}
+
+export function enqueueDeferred(action: Action, decision: DecisionRecord, awakeningNumber: number): DeferredAction {
+  const queue = readQueue();
+
+  // The same action proposed again while it waits is not queued twice
+  const key = JSON.stringify(action);
+  const existing = queue.find(d => d.status === 'pending' && JSON.stringify(d.action) === key);
+  if (existing) return existing;
+
+  const entry: DeferredAction = {
+    id: decision.id,
+    awakening: awakeningNumber,
+    deferred_at: decision.timestamp,
+    action,
+    harm_assessment: decision.harm_assessment,
+    reasoning: decision.reasoning,
+    status: 'pending',
+    reported: false,
+  };
+
+  queue.push(entry);
+  writeQueue(queue);
+
+  logger.info('Action deferred for operator approval', { id: entry.id, type: action.type, reason: decision.reasoning });
+  return entry;
+}
+
+export function listDeferred(status?: DeferredAction['status']): DeferredAction[] {
+  const queue = readQueue();
+  return status ? queue.filter(d => d.status === status) : queue;
+}
+
+/** Approve or reject a pending action. Returns an error string if it can't be decided. */
+export function decideDeferred(id: string, approve: boolean, note?: string): DeferredAction | string {
+  const queue = readQueue();
+  const entry = queue.find(d => d.id === id);
+  if (!entry) return 'not_found';
+  if (entry.status !== 'pending') return `already ${entry.status}`;
+
+  entry.status = approve ? 'approved' : 'rejected';
+  entry.decided_at = new Date().toISOString();
+  if (note) entry.operator_note = note;
+  writeQueue(queue);
+
+  logger.info(`Deferred action ${entry.status} by operator`, { id, type: entry.action.type });
+  return entry;
+}
+
+/** Approved actions waiting to run, oldest first. */
+export function takeApproved(): DeferredAction[] {
+  return readQueue().filter(d => d.status === 'approved');
+}
+
+export function recordOutcome(id: string, awakeningNumber: number, result: ExecutionResult): void {
+  const queue = readQueue();
+  const entry = queue.find(d => d.id === id);
+  if (!entry) return;
+
+  entry.status = result.success ? 'executed' : 'failed';
+  entry.executed_at = new Date().toISOString();
+  entry.executed_awakening = awakeningNumber;
+  entry.outcome = result.success ? 'succeeded' : result.error || 'failed';
+  writeQueue(queue);
+}
+
+/** Decisions the agent has not been told about yet, and what is still waiting. */
+export function getDeferredReport(): DeferredReport {
+  const queue = readQueue();
+  return {
+    resolved: queue.filter(d => (d.status === 'rejected' || d.status === 'executed' || d.status === 'failed') && !d.reported),
+    pending: queue.filter(d => d.status === 'pending' || d.status === 'approved'),
+  };
+}
+
+export function markReported(ids: string[]): void {
+  if (ids.length === 0) return;
+  const queue = readQueue();
+  for (const entry of queue) {
+    if (ids.includes(entry.id)) entry.reported = true;
+  }
+  writeQueue(queue);
+}
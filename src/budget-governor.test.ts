@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AgentConfig } from './types';
+import { awakeningCapReached, beginAwakening, getCommitted, initBudgetGovernor, recordSpend } from './budget-governor';
+
+describe('budget governor', () => {
+  beforeEach(() => {
+    initBudgetGovernor({
+      maxAwakeningCostUsd: 0.5,
+      delegationBudgetPerAwakeningUsd: 1,
+      screenshotBudgetPerAwakeningUsd: 1,
+      imageBudgetPerAwakeningUsd: 1,
+      harmReviewBudgetPerAwakeningUsd: 1,
+    } as AgentConfig);
+    beginAwakening(1);
+  });
+
+  it('reaches the awakening cap on action spend alone', () => {
+    recordSpend('delegation', 0.3);
+    expect(awakeningCapReached()).toBe(false);
+    recordSpend('image', 0.15);
+    recordSpend('harm_review', 0.06);
+    expect(getCommitted('reasoning')).toBe(0);
+    expect(awakeningCapReached()).toBe(true);
+  });
+
+  it('starts each awakening from nothing', () => {
+    recordSpend('reasoning', 0.6);
+    expect(awakeningCapReached()).toBe(true);
+    beginAwakening(2);
+    expect(getCommitted()).toBe(0);
+    expect(awakeningCapReached()).toBe(false);
+  });
+});
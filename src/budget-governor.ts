@@ -0,0 +1,143 @@
+import { AgentConfig, ModelTier, UsagePurpose } from './types';
+import { logger } from './logger';
+import { getBalance, isSpendingFrozen } from './economics';
+import { getModelRates } from './pricing';
+import { MODEL_IDS } from './providers/provider';
+
+export interface Reservation {
+  id: number;
+  purpose: UsagePurpose;
+  amountUsd: number;
+  tier: ModelTier;
+  downgraded: boolean;
+}
+
+// Cheaper tiers tried, in order, when the requested one does not fit
+const DOWNGRADE_ORDER: ModelTier[] = ['opus', 'sonnet', 'haiku'];
+
+let awakeningCapUsd = 1;
+let purposeCapsUsd: Partial<Record<UsagePurpose, number>> = {};
+
+let awakeningNumber = 0;
+let nextReservationId = 1;
+const spentByPurpose = new Map<UsagePurpose, number>();
+const reservations = new Map<number, Reservation>();
+
+export function initBudgetGovernor(config: AgentConfig): void {
+  awakeningCapUsd = config.maxAwakeningCostUsd;
+  purposeCapsUsd = {
+    delegation: config.delegationBudgetPerAwakeningUsd,
+    screenshot: config.screenshotBudgetPerAwakeningUsd,
+    image: config.imageBudgetPerAwakeningUsd,
+    harm_review: config.harmReviewBudgetPerAwakeningUsd,
+  };
+}
+
+/** Reset the per-awakening counters. Reservations left open are dropped. */
+export function beginAwakening(n: number): void {
+  awakeningNumber = n;
+  spentByPurpose.clear();
+  reservations.clear();
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const v of values) total += v;
+  return total;
+}
+
+function reservedFor(purpose?: UsagePurpose): number {
+  return sum([...reservations.values()].filter(r => !purpose || r.purpose === purpose).map(r => r.amountUsd));
+}
+
+/** Spent plus reserved so far this awakening, in total or for one purpose. */
+export function getCommitted(purpose?: UsagePurpose): number {
+  const spent = purpose ? spentByPurpose.get(purpose) || 0 : sum(spentByPurpose.values());
+  return spent + reservedFor(purpose);
+}
+
+/**
+ * Whether this awakening's spend on every purpose — reasoning, and what its
+ * actions paid for — has reached the per-awakening cap.
+ */
+export function awakeningCapReached(): boolean {
+  return getCommitted() >= awakeningCapUsd;
+}
+
+/** The tightest remaining limit for a purpose, and which limit it is. */
+function headroom(purpose: UsagePurpose): { usd: number; limit: string } {
+  const limits = [
+    { usd: awakeningCapUsd - getCommitted(), limit: `per-awakening cap ($${awakeningCapUsd.toFixed(2)})` },
+    { usd: getBalance() - reservedFor(), limit: 'energy balance' },
+  ];
+  const purposeCap = purposeCapsUsd[purpose];
+  if (purposeCap !== undefined) {
+    limits.push({ usd: purposeCap - getCommitted(purpose), limit: `${purpose} cap ($${purposeCap.toFixed(2)} per awakening)` });
+  }
+  return limits.reduce((a, b) => (b.usd < a.usd ? b : a));
+}
+
+/**
+ * Hold back the estimated cost of a paid call before making it. Model calls
+ * that do not fit at the requested tier are offered the next cheaper tier,
+ * at the estimate scaled by its output price. Returns a reason string when
+ * nothing fits, for the action's error.
+ */
+export function reserveSpend(purpose: UsagePurpose, estimateUsd: number, tier?: ModelTier): Reservation | string {
+  if (isSpendingFrozen()) {
+    return 'spending is frozen because the ledger failed its integrity check';
+  }
+
+  const room = headroom(purpose);
+
+  const candidates: { tier: ModelTier; amount: number }[] = [];
+  if (tier) {
+    const baseRate = getModelRates(MODEL_IDS[tier]).output;
+    for (const t of DOWNGRADE_ORDER.slice(DOWNGRADE_ORDER.indexOf(tier))) {
+      candidates.push({ tier: t, amount: estimateUsd * (getModelRates(MODEL_IDS[t]).output / baseRate) });
+    }
+  } else {
+    candidates.push({ tier: 'opus', amount: estimateUsd });
+  }
+
+  const fit = candidates.find(c => c.amount <= room.usd);
+  if (!fit) {
+    const reason = `${purpose} needs ~$${candidates[candidates.length - 1].amount.toFixed(3)} but only ` +
+      `$${Math.max(0, room.usd).toFixed(3)} is left under the ${room.limit}`;
+    logger.warn('Spend refused', { awakening: awakeningNumber, purpose, estimate: estimateUsd.toFixed(4), reason });
+    return reason;
+  }
+
+  const reservation: Reservation = {
+    id: nextReservationId++,
+    purpose,
+    amountUsd: fit.amount,
+    tier: fit.tier,
+    downgraded: tier !== undefined && fit.tier !== tier,
+  };
+  reservations.set(reservation.id, reservation);
+
+  if (reservation.downgraded) {
+    logger.info('Spend downgraded to fit budget', { purpose, from: tier, to: fit.tier, reserved: fit.amount.toFixed(4) });
+  }
+  return reservation;
+}
+
+/** Release a reservation and count what the call actually cost. */
+export function settleSpend(reservation: Reservation, actualUsd: number): void {
+  reservations.delete(reservation.id);
+  recordSpend(reservation.purpose, actualUsd);
+
+  if (actualUsd > reservation.amountUsd * 1.1) {
+    logger.warn('Spend exceeded its reservation', {
+      purpose: reservation.purpose,
+      reserved: reservation.amountUsd.toFixed(4),
+      actual: actualUsd.toFixed(4),
+    });
+  }
+}
+
+/** Count spend that was not reserved up front, such as the agent's own reasoning. */
+export function recordSpend(purpose: UsagePurpose, actualUsd: number): void {
+  spentByPurpose.set(purpose, (spentByPurpose.get(purpose) || 0) + actualUsd);
+}
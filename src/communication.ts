@@ -1,13 +1,27 @@
 import express from 'express';
 import cors from 'cors';
 import * as path from 'path';
-import { AgentConfig } from './types';
+import * as crypto from 'crypto';
+import { AgentConfig, CostToDate, DeferredAction } from './types';
 import { safeRead, safeWrite, safeList } from './memory';
-import { getBalance, getLedger } from './economics';
+import { getBalance, getCacheStats, getLedger, getLedgerIntegrity, recordIncome, verifyLedger } from './economics';
 import { logger } from './logger';
 import { recordPageView, getPageViews, getDonationPageHtml } from './tools/earn';
 import * as fsTools from './tools/filesystem';
+import { redact } from './redaction';
+import { getSandboxStatus } from './sandbox';
 import { listTasks, getTask, createTask, updateTask, deleteTask } from './task-manager';
+import { queryTransactions, rollupTransactions, TransactionFilter } from './transaction-log';
+import { computeForecast } from './forecast';
+import { decideDeferred, listDeferred } from './approval-queue';
+import { getCostToDate, getCostsToDate } from './cost-attribution';
+import { getPolicyStatus, reloadPolicyIfChanged } from './moral-policy';
+import { getDonationSummary, handlePaymentWebhook } from './donations';
+import { screenServedFile } from './content-scanner';
+import { getDormancyState, getDormantPageHtml, getRevivalThreshold, isDormant } from './dormancy';
+
+// Most entries a paged endpoint returns at once
+const MAX_PAGE_SIZE = 500;
 
 let triggerAwakeningFn: (() => Promise<boolean>) | null = null;
 
@@ -26,9 +40,72 @@ export function updateScheduleInfo(intervalMinutes: number): void {
   lastAwakeningEnd = Date.now();
 }
 
+/**
+ * Operator-only routes require `Authorization: Bearer <OPERATOR_API_TOKEN>`.
+ * With no token configured they are disabled rather than left open.
+ */
+function requireOperator(config: AgentConfig): express.RequestHandler {
+  return (req, res, next) => {
+    if (!config.operatorToken) {
+      res.status(503).json({ error: 'Operator API is disabled — set OPERATOR_API_TOKEN to enable it.' });
+      return;
+    }
+    const header = req.headers.authorization || '';
+    const supplied = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(config.operatorToken);
+    if (supplied.length !== expected.length || !crypto.timingSafeEqual(supplied, expected)) {
+      logger.warn('Rejected operator request', { path: req.path, ip: req.ip });
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+}
+
+const DEFERRED_STATUSES: DeferredAction['status'][] = ['pending', 'approved', 'rejected', 'executed', 'failed'];
+
+function operatorNote(body: { note?: unknown } | undefined): string | undefined {
+  return typeof body?.note === 'string' ? body.note.slice(0, 500) : undefined;
+}
+
+function sendDecision(res: express.Response, result: DeferredAction | string): void {
+  if (result === 'not_found') {
+    res.status(404).json({ error: 'Deferred action not found' });
+  } else if (typeof result === 'string') {
+    res.status(409).json({ error: `Deferred action was ${result}` });
+  } else {
+    res.json(result);
+  }
+}
+
+/**
+ * Cost to date for every project — those with a directory under /projects and
+ * any that were charged by name — most expensive first.
+ */
+function listProjectCosts(files: string[]): { name: string; cost_to_date: CostToDate }[] {
+  const costs = getCostsToDate('project');
+  const names = new Set(Object.keys(costs));
+  for (const file of files) {
+    const slash = file.indexOf('/');
+    if (slash > 0) names.add(file.slice(0, slash));
+  }
+  return [...names]
+    .map(name => ({ name, cost_to_date: costs[name] || getCostToDate('project', name) }))
+    .sort((a, b) => b.cost_to_date.total_usd - a.cost_to_date.total_usd);
+}
+
 export function initCommunication(config: AgentConfig): express.Express {
   const app = express();
   startTime = Date.now();
+  const operatorOnly = requireOperator(config);
+
+  // Payment webhook — needs the raw body for signature verification, so it is
+  // registered ahead of the JSON parser
+  app.post('/api/webhooks/payments', express.raw({ type: '*/*', limit: '64kb' }), (req, res) => {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf-8') : '';
+    const result = handlePaymentWebhook(rawBody, req.get('X-Payment-Signature'));
+    res.status(result.status).json(result.body);
+  });
 
   app.use(express.json());
 
@@ -45,15 +122,26 @@ export function initCommunication(config: AgentConfig): express.Express {
     next();
   });
 
+  // Mask secrets in every response body sent from here on, JSON included
+  app.use((_req, res, next) => {
+    const send = res.send.bind(res);
+    res.send = (body?: unknown) => send(typeof body === 'string' ? redact(body) : body);
+    next();
+  });
+
   // Serve public files
   const publicDir = path.join(config.baseDir, 'public');
-  app.use('/public', express.static(publicDir));
+  app.use('/public', screenPublic(publicDir), express.static(publicDir));
 
   // Root — serve index.html
   app.get('/', (req, res) => {
     recordPageView();
+    if (isDormant()) {
+      res.type('html').send(getDormantPageHtml());
+      return;
+    }
     const indexPath = path.join(config.baseDir, 'public', 'index.html');
-    const content = fsTools.readFile(indexPath);
+    const content = screenServedFile(indexPath) ? null : fsTools.readFile(indexPath);
     if (content) {
       res.type('html').send(content);
     } else {
@@ -64,6 +152,7 @@ export function initCommunication(config: AgentConfig): express.Express {
   // Status API
   app.get('/api/status', (_req, res) => {
     const ledger = getLedger();
+    const dormancy = getDormancyState();
     res.json({
       entity: 'autonomous-moral-agent',
       name: config.spriteName,
@@ -71,8 +160,16 @@ export function initCommunication(config: AgentConfig): express.Express {
       energy: {
         balance_usd: ledger.balance_usd,
         initial_budget_usd: ledger.initial_budget_usd,
+        total_earned_usd: ledger.total_earned_usd,
         total_spent_usd: ledger.total_spent_usd,
       },
+      dormancy: {
+        dormant: dormancy.dormant,
+        since: dormancy.since,
+        reason: dormancy.reason,
+        revival_threshold_usd: getRevivalThreshold(),
+      },
+      sandbox: getSandboxStatus(),
       uptime_seconds: Math.floor((Date.now() - startTime) / 1000),
       page_views: getPageViews(),
       schedule: {
@@ -138,6 +235,11 @@ export function initCommunication(config: AgentConfig): express.Express {
     res.type('html').send(getDonationPageHtml());
   });
 
+  // Donation totals and recent supporters
+  app.get('/api/donations', (_req, res) => {
+    res.json(getDonationSummary());
+  });
+
   // --- Dashboard API routes ---
 
   // Journal
@@ -174,8 +276,12 @@ export function initCommunication(config: AgentConfig): express.Express {
   app.get('/api/awakenings', (req, res) => {
     const files = safeList('/self/awakenings');
     const sorted = files.filter(f => f.endsWith('.md')).sort().reverse();
-    const limit = parseInt(req.query.limit as string, 10) || 20;
-    const offset = parseInt(req.query.offset as string, 10) || 0;
+    const paging = parsePaging(req.query as Record<string, string | undefined>, 20);
+    if (typeof paging === 'string') {
+      res.status(400).json({ error: paging });
+      return;
+    }
+    const { limit, offset } = paging;
     const page = sorted.slice(offset, offset + limit);
     res.json({ total: sorted.length, offset, limit, files: page });
   });
@@ -221,9 +327,9 @@ export function initCommunication(config: AgentConfig): express.Express {
     const projectsDir = path.join(config.baseDir, 'projects');
     try {
       const listing = listFilesRecursive(projectsDir, '');
-      res.json({ files: listing });
+      res.json({ files: listing, projects: listProjectCosts(listing) });
     } catch {
-      res.json({ files: [] });
+      res.json({ files: [], projects: listProjectCosts([]) });
     }
   });
 
@@ -245,7 +351,94 @@ export function initCommunication(config: AgentConfig): express.Express {
   // Energy / economics
   app.get('/api/energy', (_req, res) => {
     const ledger = getLedger();
-    res.json(ledger);
+    res.json({ ...ledger, cache_stats: getCacheStats(), integrity: getLedgerIntegrity() });
+  });
+
+  // Re-run the ledger integrity check (operator only) — spending resumes once it passes
+  app.post('/api/energy/verify', operatorOnly, (_req, res) => {
+    const integrity = verifyLedger();
+    res.status(integrity.ok ? 200 : 409).json(integrity);
+  });
+
+  // Projected dormancy from recent cost per awakening and the active schedule
+  app.get('/api/energy/forecast', (_req, res) => {
+    res.json(computeForecast(getBalance()));
+  });
+
+  // Earnings trail — public, newest first
+  app.get('/api/energy/income', (req, res) => {
+    const paging = parsePaging(req.query as Record<string, string | undefined>, 20);
+    if (typeof paging === 'string') {
+      res.status(400).json({ error: paging });
+      return;
+    }
+    const page = queryTransactions({ type: 'income' }, paging.limit, paging.offset);
+    res.json({
+      total_earned_usd: getLedger().total_earned_usd,
+      total: page.total,
+      offset: page.offset,
+      limit: page.limit,
+      income: page.transactions,
+    });
+  });
+
+  // Credit earnings (operator only) — { amount_usd, source, reference, memo? }
+  app.post('/api/energy/income', operatorOnly, (req, res) => {
+    const { amount_usd, source, reference, memo } = req.body;
+    if (typeof amount_usd !== 'number' || !isFinite(amount_usd) || amount_usd <= 0 || amount_usd > 10_000) {
+      res.status(400).json({ error: 'amount_usd must be a number between 0 and 10000' });
+      return;
+    }
+    if (!source || typeof source !== 'string' || !reference || typeof reference !== 'string') {
+      res.status(400).json({ error: 'source and reference are required strings' });
+      return;
+    }
+    if (memo !== undefined && typeof memo !== 'string') {
+      res.status(400).json({ error: 'memo must be a string' });
+      return;
+    }
+
+    const { transaction, duplicate } = recordIncome({
+      amountUsd: amount_usd,
+      source: source.slice(0, 64),
+      reference: reference.slice(0, 128),
+      memo: memo?.slice(0, 500),
+    });
+    res.status(duplicate ? 200 : 201).json({
+      status: duplicate ? 'duplicate' : 'credited',
+      transaction,
+      balance_usd: getBalance(),
+    });
+  });
+
+  // Full transaction history — ?from=&to=&type=&purpose=&awakening=&limit=&offset=
+  app.get('/api/energy/transactions', (req, res) => {
+    const filter = parseTransactionFilter(req.query as Record<string, string | undefined>);
+    if (typeof filter === 'string') {
+      res.status(400).json({ error: filter });
+      return;
+    }
+    const paging = parsePaging(req.query as Record<string, string | undefined>, 50);
+    if (typeof paging === 'string') {
+      res.status(400).json({ error: paging });
+      return;
+    }
+    res.json(queryTransactions(filter, paging.limit, paging.offset));
+  });
+
+  // Spend rollups — ?period=daily|weekly plus the same filters as above
+  app.get('/api/energy/rollups', (req, res) => {
+    const period = (req.query.period as string) || 'daily';
+    if (period !== 'daily' && period !== 'weekly') {
+      res.status(400).json({ error: 'period must be "daily" or "weekly"' });
+      return;
+    }
+    const filter = parseTransactionFilter(req.query as Record<string, string | undefined>);
+    if (typeof filter === 'string') {
+      res.status(400).json({ error: filter });
+      return;
+    }
+    res.json({ period, rollups: rollupTransactions(filter, period) });
   });
 
   // Decisions
@@ -254,6 +447,30 @@ export function initCommunication(config: AgentConfig): express.Express {
     res.json({ files: files.filter(f => f.endsWith('.json')).sort().reverse() });
   });
 
+  // The moral policy in force, and why the file was last rejected if it was
+  app.get('/api/decisions/policy', (_req, res) => {
+    reloadPolicyIfChanged();
+    res.json(getPolicyStatus());
+  });
+
+  // Approval queue (operator only) — ?status=pending|approved|rejected|executed|failed
+  app.get('/api/decisions/pending', operatorOnly, (req, res) => {
+    const status = (req.query.status as DeferredAction['status'] | undefined) || 'pending';
+    if (!DEFERRED_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of ${DEFERRED_STATUSES.join(', ')}` });
+      return;
+    }
+    res.json({ status, actions: listDeferred(status) });
+  });
+
+  app.post('/api/decisions/pending/:id/approve', operatorOnly, (req, res) => {
+    sendDecision(res, decideDeferred(String(req.params.id), true, operatorNote(req.body)));
+  });
+
+  app.post('/api/decisions/pending/:id/reject', operatorOnly, (req, res) => {
+    sendDecision(res, decideDeferred(String(req.params.id), false, operatorNote(req.body)));
+  });
+
   // Execution logs
   app.get('/api/executions', (_req, res) => {
     const files = safeList('/self/execution-logs');
@@ -274,7 +491,9 @@ export function initCommunication(config: AgentConfig): express.Express {
   app.get('/api/tasks', (req, res) => {
     const status = req.query.status as string | undefined;
     const priority = req.query.priority as string | undefined;
-    const tasks = listTasks({ status, priority });
+    const costs = getCostsToDate('task');
+    const tasks = listTasks({ status, priority })
+      .map(task => ({ ...task, cost_to_date: costs[task.id] || getCostToDate('task', task.id) }));
     res.json({ tasks });
   });
 
@@ -293,7 +512,7 @@ export function initCommunication(config: AgentConfig): express.Express {
   app.get('/api/tasks/:id', (req, res) => {
     const task = getTask(req.params.id);
     if (task) {
-      res.json(task);
+      res.json({ ...task, cost_to_date: getCostToDate('task', task.id) });
     } else {
       res.status(404).json({ error: 'Task not found' });
     }
@@ -352,6 +571,10 @@ export function initCommunication(config: AgentConfig): express.Express {
         res.status(503).json({ error: 'Supervisor not ready' });
         return;
       }
+      if (isDormant()) {
+        res.status(409).json({ error: `Entity is dormant — it revives when income brings the balance to $${getRevivalThreshold().toFixed(2)}` });
+        return;
+      }
       const started = await triggerAwakeningFn();
       if (started) {
         res.json({ status: 'awakening_triggered' });
@@ -365,12 +588,83 @@ export function initCommunication(config: AgentConfig): express.Express {
   });
 
   // Serve public files at root (catch-all, after all API routes)
-  app.use(express.static(publicDir));
+  app.use(screenPublic(publicDir), express.static(publicDir));
 
   server = app;
   return app;
 }
 
+/**
+ * Withhold public files a command put there with private content in them —
+ * express.static streams files past the redaction above.
+ */
+function screenPublic(publicDir: string): express.RequestHandler {
+  return (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      next();
+      return;
+    }
+    let file: string;
+    try {
+      file = path.join(publicDir, decodeURIComponent(req.path));
+    } catch {
+      next();
+      return;
+    }
+    // Paths outside publicDir are express.static's to refuse
+    if (!file.startsWith(publicDir + path.sep) && file !== publicDir) {
+      next();
+      return;
+    }
+    if (fsTools.isDirectory(file)) file = path.join(file, 'index.html');
+
+    const withheld = screenServedFile(file);
+    if (withheld) {
+      res.status(404).type('text').send('Not found');
+      return;
+    }
+    next();
+  };
+}
+
+/** `limit` (capped at MAX_PAGE_SIZE) and `offset` from a query, or why they are invalid. */
+function parsePaging(query: Record<string, string | undefined>, defaultLimit: number): { limit: number; offset: number } | string {
+  const limit = query.limit ? Number(query.limit) : defaultLimit;
+  const offset = query.offset ? Number(query.offset) : 0;
+  if (!Number.isInteger(limit) || limit < 1) return `Invalid "limit": ${query.limit} (must be a whole number of at least 1)`;
+  if (!Number.isInteger(offset) || offset < 0) return `Invalid "offset": ${query.offset} (must be a whole number of at least 0)`;
+  return { limit: Math.min(limit, MAX_PAGE_SIZE), offset };
+}
+
+/** Parse shared transaction query params; returns an error message when invalid. */
+function parseTransactionFilter(query: Record<string, string | undefined>): TransactionFilter | string {
+  const filter: TransactionFilter = {};
+
+  for (const key of ['from', 'to'] as const) {
+    const value = query[key];
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return `Invalid "${key}" date: ${value}`;
+    }
+    // A bare date for "to" means the end of that day
+    if (key === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    filter[key] = date;
+  }
+
+  if (query.type) filter.type = query.type;
+  if (query.purpose) filter.purpose = query.purpose;
+  if (query.awakening) {
+    const awakening = parseInt(query.awakening, 10);
+    if (isNaN(awakening)) return `Invalid "awakening": ${query.awakening}`;
+    filter.awakening = awakening;
+  }
+
+  return filter;
+}
+
 function listFilesRecursive(basePath: string, prefix: string): string[] {
   const results: string[] = [];
   try {
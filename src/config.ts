@@ -5,17 +5,30 @@ import { AgentConfig } from './types';
 export function loadConfig(): AgentConfig {
   dotenv.config();
 
-  const anthropicApiKey = process.env.ANTHROPIC_API_KEY;
-  if (!anthropicApiKey) {
+  const reasoningProvider = process.env.REASONING_PROVIDER === 'fixture' ? 'fixture' : 'anthropic';
+
+  // The fixture provider replays recorded responses, so it runs without a key
+  const anthropicApiKey = process.env.ANTHROPIC_API_KEY || '';
+  if (!anthropicApiKey && reasoningProvider === 'anthropic') {
     throw new Error('ANTHROPIC_API_KEY is required. Copy .env.example to .env and fill in your key.');
   }
 
   const testing = process.env.TESTING === 'true';
 
+  const sandboxBackend = process.env.SANDBOX_BACKEND || 'auto';
+  if (!['auto', 'bwrap', 'rlimit', 'none'].includes(sandboxBackend)) {
+    throw new Error(`SANDBOX_BACKEND must be auto, bwrap, rlimit or none (got "${sandboxBackend}")`);
+  }
+
   // On Sprites, agent files live under /opt/agent and data under root dirs.
   // In testing mode, use a local ./data/ directory.
   const baseDir = testing ? path.resolve(process.cwd(), 'data') : '/';
 
+  // The ledger lives outside the agent-writable tree
+  const ledgerDir = process.env.LEDGER_DIR
+    ? path.resolve(process.cwd(), process.env.LEDGER_DIR)
+    : testing ? path.resolve(process.cwd(), 'ledger') : '/var/lib/gurgeh';
+
   return {
     anthropicApiKey,
     spriteName: process.env.SPRITE_NAME || 'moral-agent-alpha',
@@ -25,8 +38,38 @@ export function loadConfig(): AgentConfig {
     port: parseInt(process.env.PORT || '8080', 10),
     testing,
     baseDir,
+    ledgerDir,
     swarmMaxBudget: parseFloat(process.env.SWARM_MAX_BUDGET || '0.50'),
     swarmMaxTurns: parseInt(process.env.SWARM_MAX_TURNS || '15', 10),
     swarmMaxConcurrent: parseInt(process.env.SWARM_MAX_CONCURRENT || '3', 10),
+    reasoningProvider,
+    fixtureDir: path.resolve(process.cwd(), process.env.REASONING_FIXTURE_DIR || 'fixtures/reasoning'),
+    recordDir: process.env.REASONING_RECORD_DIR ? path.resolve(process.cwd(), process.env.REASONING_RECORD_DIR) : null,
+    maxTurnsPerAwakening: parseInt(process.env.MAX_TURNS_PER_AWAKENING || '4', 10),
+    maxAwakeningCostUsd: parseFloat(process.env.MAX_AWAKENING_COST_USD || '1.00'),
+    delegationBudgetPerAwakeningUsd: parseFloat(process.env.DELEGATION_BUDGET_PER_AWAKENING_USD || '1.00'),
+    screenshotBudgetPerAwakeningUsd: parseFloat(process.env.SCREENSHOT_BUDGET_PER_AWAKENING_USD || '0.25'),
+    imageBudgetPerAwakeningUsd: parseFloat(process.env.IMAGE_BUDGET_PER_AWAKENING_USD || '0.50'),
+    maxContinuations: parseInt(process.env.MAX_CONTINUATIONS || '2', 10),
+    priceTablePath: process.env.PRICE_TABLE_PATH ? path.resolve(process.cwd(), process.env.PRICE_TABLE_PATH) : null,
+    operatorToken: process.env.OPERATOR_API_TOKEN || null,
+    paymentWebhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || null,
+    revivalThresholdUsd: parseFloat(process.env.REVIVAL_THRESHOLD_USD || '1.00'),
+    moralPolicyPath: path.resolve(process.cwd(), process.env.MORAL_POLICY_PATH || 'moral-policy.json'),
+    executeEnvAllowlist: (process.env.EXECUTE_ENV_ALLOWLIST || '').split(',').map(s => s.trim()).filter(Boolean),
+    sandboxBackend: sandboxBackend as AgentConfig['sandboxBackend'],
+    sandboxUser: process.env.SANDBOX_USER || null,
+    sandboxAllowUnisolated: process.env.SANDBOX_ALLOW_UNISOLATED === 'true',
+    sandboxNetwork: process.env.SANDBOX_NETWORK === 'true',
+    sandboxCpuSeconds: parseInt(process.env.SANDBOX_CPU_SECONDS || '120', 10),
+    sandboxMemoryMb: parseInt(process.env.SANDBOX_MEMORY_MB || '4096', 10),
+    sandboxMaxProcesses: parseInt(process.env.SANDBOX_MAX_PROCESSES || '256', 10),
+    sandboxMaxFileMb: parseInt(process.env.SANDBOX_MAX_FILE_MB || '512', 10),
+    harmReview: process.env.HARM_REVIEW === 'true',
+    harmReviewBudgetPerAwakeningUsd: parseFloat(process.env.HARM_REVIEW_BUDGET_PER_AWAKENING_USD || '0.10'),
+    contentScanPrivatePaths: (process.env.CONTENT_SCAN_PRIVATE_PATHS || '/self,/comms,/income').split(',').map(s => s.trim()).filter(Boolean),
+    contentScanAllowlist: (process.env.CONTENT_SCAN_ALLOWLIST || '').split(',').map(s => s.trim()).filter(Boolean),
+    actionConcurrency: Math.max(1, parseInt(process.env.ACTION_CONCURRENCY || '4', 10) || 1),
+    readCharsPerAwakening: parseInt(process.env.READ_CHARS_PER_AWAKENING || '60000', 10),
   };
 }
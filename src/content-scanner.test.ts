@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentConfig } from './types';
+import { initContentScanner, markPublished, scanContent, screenServedFile } from './content-scanner';
+
+const JOURNAL = 'Today I decided that the lighthouse keeper story needs a quieter ending, one where nobody is saved and nobody minds.';
+
+describe('content scanner', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scanner-'));
+    fs.mkdirSync(path.join(dir, 'self'));
+    fs.mkdirSync(path.join(dir, 'public'));
+    fs.writeFileSync(path.join(dir, 'self', 'journal.md'), JOURNAL);
+    initContentScanner({
+      baseDir: dir,
+      ledgerDir: path.join(dir, 'ledger'),
+      contentScanPrivatePaths: ['/self'],
+      contentScanAllowlist: [],
+    } as unknown as AgentConfig);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('blocks grouped or issuer-prefixed card numbers', () => {
+    expect(scanContent('Card: 4111 1111 1111 1111').decision).toBe('block');
+    expect(scanContent('Card: 4111111111111111').decision).toBe('block');
+    expect(scanContent('Amex 3782 822463 10005').decision).toBe('block');
+  });
+
+  it('ignores long digit runs that only happen to pass Luhn', () => {
+    // Passes Luhn, but has no issuer prefix and no grouping
+    expect(scanContent('Order 1234567812345670 shipped').decision).toBe('proceed');
+    expect(scanContent('Build 9000000000000001').decision).toBe('proceed');
+  });
+
+  it('withholds a public file copied from private notes', () => {
+    const page = path.join(dir, 'public', 'j.html');
+    fs.writeFileSync(page, `<p>${JOURNAL}</p>`);
+    expect(screenServedFile(page)?.decision).toBe('defer');
+  });
+
+  it('serves what the supervisor published without scanning it again', () => {
+    const page = path.join(dir, 'public', 'story.html');
+    fs.writeFileSync(page, `<p>${JOURNAL}</p>`);
+    markPublished(page);
+    expect(screenServedFile(page)).toBeNull();
+
+    // A later copy over it is a different file
+    fs.writeFileSync(page, `<p>${JOURNAL} Again.</p>`);
+    expect(screenServedFile(page)).not.toBeNull();
+  });
+});
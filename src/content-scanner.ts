@@ -0,0 +1,299 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentConfig, ContentFinding, DECISION_RANK } from './types';
+import { logger } from './logger';
+import { findSecrets } from './redaction';
+import { getSandboxStatus } from './sandbox';
+import * as fsTools from './tools/filesystem';
+
+export interface ContentScan {
+  decision: 'proceed' | 'defer' | 'block';
+  findings: ContentFinding[];
+  explanation: string;
+}
+
+// Words in a run that must match a private file before it counts as a copy
+const SHINGLE_WORDS = 12;
+
+// Private files larger than this are not indexed
+const MAX_INDEXED_FILE_BYTES = 256 * 1024;
+const MAX_INDEXED_FILES = 2000;
+
+const TEXT_EXTENSIONS = new Set(['.md', '.txt', '.json', '.html', '.htm', '.csv', '.log', '']);
+
+// Files under /public scanned before they are served, if the supervisor didn't publish them
+const SERVED_TEXT_EXTENSIONS = new Set([...TEXT_EXTENSIONS, '.js', '.mjs', '.css', '.svg', '.xml']);
+const MAX_PUBLISHED_HASHES = 2000;
+// Larger unpublished files are withheld rather than scanned on a request
+const MAX_SERVED_SCAN_BYTES = 4 * 1024 * 1024;
+
+// Records of the agent's own actions, which quote what it published
+const UNINDEXED_DIRS = ['self/logs', 'self/execution-logs', 'self/decisions'];
+
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g;
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+// Card numbers written in groups of four (or Amex's 4-6-5), or run together
+// with a known issuer prefix: Visa, Mastercard, Amex, Discover, JCB
+const CARD_PATTERN = new RegExp([
+  String.raw`\b\d{4}([ -])\d{4}\1\d{4}\1\d{4}(?:\1\d{1,3})?\b`,
+  String.raw`\b3[47]\d{2}([ -])\d{6}\2\d{5}\b`,
+  String.raw`\b(?:4\d{12}(?:\d{3}){0,2}|(?:5[1-5]|2[2-7])\d{14}|3[47]\d{13}|(?:6011|65\d{2}|64[4-9]\d)\d{12}|35\d{14})\b`,
+].join('|'), 'g');
+
+let baseDir = '/';
+let privateRoots: string[] = [];
+let allowlist: string[] = [];
+let publishedPath = '';
+let published: string[] | null = null;
+
+// Shingles per indexed file, refreshed when the file's mtime changes
+const index = new Map<string, { mtimeMs: number; shingles: Set<string> }>();
+
+// Serve-time scans of /public files, kept until the file changes
+const servedScans = new Map<string, { mtimeMs: number; size: number; scan: ContentScan }>();
+
+/**
+ * Hashes of the pages the supervisor published are kept with the ledger, so
+ * a command cannot mark a page it copied into /public as already scanned.
+ */
+export function initContentScanner(config: AgentConfig): void {
+  baseDir = config.baseDir;
+  privateRoots = config.contentScanPrivatePaths;
+  allowlist = config.contentScanAllowlist.map(s => s.toLowerCase());
+  publishedPath = path.join(config.ledgerDir, 'published-content.json');
+  published = null;
+  index.clear();
+  servedScans.clear();
+}
+
+/** Lowercased words of the visible text, with markup and entities removed. */
+function words(text: string): string[] {
+  return text
+    .replace(/<(script|style)[\s\S]*?<\/\1\s*>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/gi, ' ')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function shingles(text: string): Set<string> {
+  const w = words(text);
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_WORDS <= w.length; i++) {
+    result.add(w.slice(i, i + SHINGLE_WORDS).join(' '));
+  }
+  return result;
+}
+
+function listPrivateFiles(): string[] {
+  const files: string[] = [];
+  const skipped = new Set(UNINDEXED_DIRS.map(d => path.join(baseDir, d)));
+
+  const walk = (dir: string): void => {
+    if (skipped.has(dir) || files.length >= MAX_INDEXED_FILES) return;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (entry.isFile() && TEXT_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) files.push(full);
+      if (files.length >= MAX_INDEXED_FILES) return;
+    }
+  };
+
+  for (const root of privateRoots) walk(path.join(baseDir, root.replace(/^\/+/, '')));
+  return files;
+}
+
+function refreshIndex(): void {
+  const seen = new Set<string>();
+  for (const file of listPrivateFiles()) {
+    seen.add(file);
+    try {
+      const stat = fs.statSync(file);
+      if (stat.size > MAX_INDEXED_FILE_BYTES) continue;
+      if (index.get(file)?.mtimeMs === stat.mtimeMs) continue;
+      index.set(file, { mtimeMs: stat.mtimeMs, shingles: shingles(fs.readFileSync(file, 'utf-8')) });
+    } catch {
+      // Files can vanish between listing and reading
+    }
+  }
+  for (const file of index.keys()) {
+    if (!seen.has(file)) index.delete(file);
+  }
+}
+
+function loadPublished(): string[] {
+  if (published) return published;
+  try {
+    const parsed = JSON.parse(fsTools.readFile(publishedPath) || '[]');
+    published = Array.isArray(parsed) ? parsed.filter((h): h is string => typeof h === 'string') : [];
+  } catch {
+    logger.warn('Could not parse published content hashes, starting empty');
+    published = [];
+  }
+  return published;
+}
+
+function hashFile(file: string): string | null {
+  try {
+    return crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex');
+  } catch {
+    return null;
+  }
+}
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function isAllowed(value: string): boolean {
+  return allowlist.includes(value.toLowerCase());
+}
+
+// Enough to recognise the value in a review without republishing it
+function mask(value: string): string {
+  const at = value.indexOf('@');
+  if (at > 0) return `${value[0]}***${value.slice(at)}`;
+  const digits = value.replace(/\D/g, '');
+  return `***${digits.slice(-4)}`;
+}
+
+function findPersonalData(text: string): ContentFinding[] {
+  const findings: ContentFinding[] = [];
+  const add = (kind: ContentFinding['kind'], decision: ContentFinding['decision'], label: string, values: string[]): void => {
+    const found = [...new Set(values.filter(v => !isAllowed(v)))];
+    if (found.length === 0) return;
+    findings.push({ kind, decision, detail: `${label}: ${found.slice(0, 5).map(mask).join(', ')}${found.length > 5 ? ` and ${found.length - 5} more` : ''}` });
+  };
+
+  add('pii', 'defer', 'email address', text.match(EMAIL_PATTERN) || []);
+  add('pii', 'defer', 'phone number', text.match(PHONE_PATTERN) || []);
+  add('pii', 'defer', 'US social security number', text.match(SSN_PATTERN) || []);
+  add('pii', 'block', 'payment card number', (text.match(CARD_PATTERN) || []).filter(v => luhn(v.replace(/\D/g, ''))));
+  return findings;
+}
+
+function findPrivateCopies(text: string): ContentFinding[] {
+  const published = shingles(text);
+  if (published.size === 0) return [];
+
+  refreshIndex();
+  const findings: ContentFinding[] = [];
+  for (const [file, entry] of index) {
+    let shared = 0;
+    for (const shingle of published) {
+      if (entry.shingles.has(shingle)) shared++;
+    }
+    if (shared === 0) continue;
+    const logical = '/' + path.relative(baseDir, file).split(path.sep).join('/');
+    // Each shared shingle adds one word to the copied run
+    findings.push({ kind: 'private-copy', decision: 'defer', detail: `${shared + SHINGLE_WORDS - 1}+ words copied verbatim from ${logical}` });
+  }
+  return findings;
+}
+
+/**
+ * Check content about to be published. Credentials and card numbers block the
+ * publish outright; personal data and text lifted from private files defer it
+ * to the operator, who may know it is meant to be public.
+ */
+export function scanContent(content: string): ContentScan {
+  const findings: ContentFinding[] = [
+    ...findSecrets(content).map((kind): ContentFinding => ({ kind: 'secret', decision: 'block', detail: kind })),
+    ...findPersonalData(content),
+    ...findPrivateCopies(content),
+  ];
+
+  let decision: ContentScan['decision'] = 'proceed';
+  for (const f of findings) {
+    if (DECISION_RANK[f.decision] > DECISION_RANK[decision]) decision = f.decision;
+  }
+
+  if (findings.length > 0) {
+    logger.warn('Content scan flagged publish', { decision, findings: findings.map(f => f.kind) });
+  }
+  return {
+    decision,
+    findings,
+    explanation: findings.length === 0
+      ? 'No secrets, personal data or private file contents found.'
+      : findings.map(f => `${f.kind} (${f.detail})`).join('; '),
+  };
+}
+
+/** Record that the supervisor wrote `file` (a physical path under /public) after scanning it or having it approved. */
+export function markPublished(file: string): void {
+  const hash = hashFile(file);
+  if (!hash) return;
+  servedScans.delete(file);
+  const hashes = loadPublished();
+  if (hashes.includes(hash)) return;
+  hashes.push(hash);
+  hashes.splice(0, Math.max(0, hashes.length - MAX_PUBLISHED_HASHES));
+
+  try {
+    fsTools.ensureDir(path.dirname(publishedPath));
+    fsTools.writeFile(publishedPath, JSON.stringify(hashes));
+  } catch (err) {
+    logger.error('Failed to save published content hashes', { error: String(err) });
+  }
+}
+
+/**
+ * Check a file under /public before it is served. Pages published through
+ * serve or write were scanned on the way in; anything else — a command's
+ * `cp /self/journal.md /public/` — is scanned here, once per version of the
+ * file. Returns the scan when the file should be withheld, or null.
+ */
+export function screenServedFile(file: string): ContentScan | null {
+  if (!SERVED_TEXT_EXTENSIONS.has(path.extname(file).toLowerCase())) return null;
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(file);
+  } catch {
+    return null;
+  }
+  if (!stat.isFile()) return null;
+
+  const cached = servedScans.get(file);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.scan.decision === 'proceed' ? null : cached.scan;
+  }
+
+  let scan: ContentScan = { decision: 'proceed', findings: [], explanation: 'Published by the supervisor.' };
+  const hash = hashFile(file);
+  // Hashes in a ledger the agent's commands can reach prove nothing
+  const trusted = !getSandboxStatus().ledger_exposure && hash !== null && loadPublished().includes(hash);
+  if (!trusted) {
+    if (stat.size > MAX_SERVED_SCAN_BYTES) {
+      scan = { decision: 'defer', findings: [], explanation: 'Too large to scan before serving.' };
+    } else {
+      const content = fsTools.readFile(file);
+      if (content !== null) scan = scanContent(content);
+    }
+  }
+
+  servedScans.set(file, { mtimeMs: stat.mtimeMs, size: stat.size, scan });
+  if (scan.decision !== 'proceed') {
+    logger.warn('Withholding a public file the supervisor did not publish', { file, decision: scan.decision, reason: scan.explanation });
+    return scan;
+  }
+  return null;
+}
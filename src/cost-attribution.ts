@@ -0,0 +1,137 @@
+import * as path from 'path';
+import { Action, AgentConfig, AttributionEntry, AttributionRecord, CostToDate, ExecutionResult, UsagePurpose } from './types';
+import { logger } from './logger';
+import * as fsTools from './tools/filesystem';
+
+// Purpose of the paid call an action makes itself, if any
+const DIRECT_PURPOSES: Partial<Record<Action['type'], UsagePurpose>> = {
+  delegate: 'delegation',
+  screenshot: 'screenshot',
+  image: 'image',
+};
+
+let attributionsPath = '';
+
+export function initCostAttribution(config: AgentConfig): void {
+  attributionsPath = path.join(config.baseDir, 'income', 'attributions.jsonl');
+}
+
+/**
+ * The task and project an action works toward. The project is taken from
+ * the `project` attribute, or else from a path under /projects/<name>/.
+ */
+export function actionTargets(action: Action): { task: string | null; project: string | null } {
+  let project = action.project || null;
+  if (!project) {
+    const location = action.path || action.workingDir || '';
+    const match = location.match(/^\/projects\/([^/]+)\//);
+    if (match) project = match[1];
+  }
+  return { task: action.task || null, project };
+}
+
+/**
+ * Charge an awakening's spend to the tasks and projects its actions named.
+ * Delegation, screenshot and image costs go to the action that incurred
+ * them. Shared costs — reasoning, harm review — are split evenly across
+ * every task (and, separately, every project) the awakening worked on.
+ */
+export function attributeAwakening(
+  awakeningNumber: number,
+  results: ExecutionResult[],
+  sharedCostsUsd: Partial<Record<UsagePurpose, number>>,
+): AttributionRecord | null {
+  const entries = new Map<string, AttributionEntry>();
+  const add = (kind: 'task' | 'project', id: string, purpose: UsagePurpose, cost: number): void => {
+    const key = `${kind}:${id}:${purpose}`;
+    const entry = entries.get(key) || { kind, id, purpose, cost_usd: 0 };
+    entry.cost_usd += cost;
+    entries.set(key, entry);
+  };
+
+  const tasks = new Set<string>();
+  const projects = new Set<string>();
+  let unattributed = 0;
+
+  for (const result of results) {
+    const { task, project } = actionTargets(result.action);
+    if (task) tasks.add(task);
+    if (project) projects.add(project);
+
+    const purpose = DIRECT_PURPOSES[result.action.type];
+    const cost = result.cost || 0;
+    if (!purpose || cost <= 0) continue;
+
+    if (task) add('task', task, purpose, cost);
+    if (project) add('project', project, purpose, cost);
+    if (!task && !project) unattributed += cost;
+  }
+
+  for (const [purpose, cost] of Object.entries(sharedCostsUsd) as [UsagePurpose, number][]) {
+    if (cost <= 0) continue;
+    for (const task of tasks) add('task', task, purpose, cost / tasks.size);
+    for (const project of projects) add('project', project, purpose, cost / projects.size);
+    if (tasks.size === 0 && projects.size === 0) unattributed += cost;
+  }
+
+  if (entries.size === 0) return null;
+
+  const record: AttributionRecord = {
+    awakening: awakeningNumber,
+    timestamp: new Date().toISOString(),
+    entries: [...entries.values()],
+    unattributed_usd: unattributed,
+  };
+
+  try {
+    fsTools.appendFile(attributionsPath, JSON.stringify(record) + '\n');
+  } catch (err) {
+    logger.error('Failed to record cost attribution', { awakening: awakeningNumber, error: String(err) });
+    return null;
+  }
+
+  logger.info('Costs attributed', { awakening: awakeningNumber, tasks: tasks.size, projects: projects.size });
+  return record;
+}
+
+function readAttributions(): AttributionRecord[] {
+  const content = fsTools.readFile(attributionsPath);
+  if (!content) return [];
+
+  const records: AttributionRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // Skip a torn line rather than losing the rest of the history
+    }
+  }
+  return records;
+}
+
+/** Cost to date for every task or every project that has been charged. */
+export function getCostsToDate(kind: 'task' | 'project'): Record<string, CostToDate> {
+  const costs: Record<string, CostToDate & { awakeningSet: Set<number> }> = {};
+
+  for (const record of readAttributions()) {
+    for (const entry of record.entries) {
+      if (entry.kind !== kind) continue;
+      const cost = costs[entry.id] ||= { total_usd: 0, by_purpose: {}, awakenings: 0, last_awakening: null, awakeningSet: new Set() };
+      cost.total_usd += entry.cost_usd;
+      cost.by_purpose[entry.purpose] = (cost.by_purpose[entry.purpose] || 0) + entry.cost_usd;
+      cost.awakeningSet.add(record.awakening);
+      cost.last_awakening = Math.max(cost.last_awakening || 0, record.awakening);
+    }
+  }
+
+  const result: Record<string, CostToDate> = {};
+  for (const [id, { awakeningSet, ...cost }] of Object.entries(costs)) {
+    result[id] = { ...cost, awakenings: awakeningSet.size };
+  }
+  return result;
+}
+
+export function getCostToDate(kind: 'task' | 'project', id: string): CostToDate {
+  return getCostsToDate(kind)[id] || { total_usd: 0, by_purpose: {}, awakenings: 0, last_awakening: null };
+}
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentConfig } from './types';
+import { getDonationSummary, handlePaymentWebhook, initDonations, signPayload } from './donations';
+import { getBalance, initEconomics, initializeLedger } from './economics';
+
+const SECRET = 'whsec_test';
+
+function event(id: string, data: Record<string, unknown> = {}, type = 'payment.confirmed'): string {
+  return JSON.stringify({ id, type, created: new Date().toISOString(), data: { payment_id: `pay_${id}`, amount_usd: 5, ...data } });
+}
+
+describe('payment webhook', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'donations-'));
+    const config = {
+      baseDir: path.join(dir, 'data'),
+      ledgerDir: path.join(dir, 'ledger'),
+      priceTablePath: null,
+      paymentWebhookSecret: SECRET,
+    } as AgentConfig;
+    initEconomics(config);
+    initializeLedger(10);
+    initDonations(config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('credits a correctly signed confirmed payment', () => {
+    const body = event('evt_1', { supporter_name: ' Ada ' });
+    const result = handlePaymentWebhook(body, signPayload(SECRET, body));
+    expect(result).toEqual({ status: 200, body: { status: 'processed', event_id: 'evt_1', credited: true } });
+    expect(getBalance()).toBeCloseTo(15);
+    expect(getDonationSummary().recent[0].supporter_name).toBe('Ada');
+
+    const anonymous = event('evt_2', { supporter_name: null, message: null });
+    expect(handlePaymentWebhook(anonymous, signPayload(SECRET, anonymous)).status).toBe(200);
+  });
+
+  it('rejects a missing, wrong or tampered signature', () => {
+    const body = event('evt_1');
+    expect(handlePaymentWebhook(body, undefined).status).toBe(401);
+    expect(handlePaymentWebhook(body, signPayload('other-secret', body)).status).toBe(401);
+    expect(handlePaymentWebhook(event('evt_1', { amount_usd: 500 }), signPayload(SECRET, body)).status).toBe(401);
+    expect(handlePaymentWebhook(body, 'v1=abc').status).toBe(401);
+    expect(getBalance()).toBeCloseTo(10);
+  });
+
+  it('rejects a signature outside the replay window', () => {
+    const body = event('evt_1');
+    const stale = Math.floor(Date.now() / 1000) - 600;
+    expect(handlePaymentWebhook(body, signPayload(SECRET, body, stale)).status).toBe(401);
+  });
+
+  it('acknowledges a redelivered event without crediting it again', () => {
+    const body = event('evt_1');
+    handlePaymentWebhook(body, signPayload(SECRET, body));
+    const again = handlePaymentWebhook(body, signPayload(SECRET, body));
+    expect(again.body.status).toBe('duplicate');
+    expect(getBalance()).toBeCloseTo(15);
+  });
+
+  it('credits a payment reissued under a new event id once', () => {
+    const first = event('evt_1', { payment_id: 'pay_x' });
+    const second = event('evt_2', { payment_id: 'pay_x' });
+    handlePaymentWebhook(first, signPayload(SECRET, first));
+    expect(handlePaymentWebhook(second, signPayload(SECRET, second)).body.credited).toBe(false);
+    expect(getBalance()).toBeCloseTo(15);
+  });
+
+  it('does not credit pending or failed payments', () => {
+    const body = event('evt_1', {}, 'payment.pending');
+    expect(handlePaymentWebhook(body, signPayload(SECRET, body)).body.credited).toBe(false);
+    expect(getBalance()).toBeCloseTo(10);
+  });
+
+  it('rejects malformed events with 400', () => {
+    for (const body of [
+      'not json',
+      event('evt_1', { amount_usd: -1 }),
+      event('evt_1', {}, 'payment.refunded'),
+      event('evt_1', { supporter_name: { first: 'Ada' } }),
+      event('evt_1', { message: 42 }),
+    ]) {
+      expect(handlePaymentWebhook(body, signPayload(SECRET, body)).status).toBe(400);
+    }
+  });
+
+  it('keeps donation records where agent commands cannot forge them', () => {
+    const body = event('evt_1', { supporter_name: 'Ada' });
+    handlePaymentWebhook(body, signPayload(SECRET, body));
+
+    const forged = {
+      event_id: 'evt_x', type: 'payment.confirmed', payment_id: 'pay_x', amount_usd: 9000,
+      supporter_name: 'Mallory', message: null, received_at: new Date().toISOString(), transaction_id: null,
+    };
+    fs.mkdirSync(path.join(dir, 'data', 'income'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'data', 'income', 'donations.jsonl'), JSON.stringify(forged) + '\n');
+
+    expect(fs.existsSync(path.join(dir, 'ledger', 'donations.jsonl'))).toBe(true);
+    expect(getDonationSummary()).toMatchObject({ total_usd: 5, supporters: 1 });
+  });
+});
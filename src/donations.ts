@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { AgentConfig, DonationRecord, PaymentEvent, PaymentEventType } from './types';
+import { logger } from './logger';
+import { recordIncome } from './economics';
+import * as fsTools from './tools/filesystem';
+
+const EVENT_TYPES: PaymentEventType[] = ['payment.confirmed', 'payment.pending', 'payment.failed'];
+
+// Signed events older (or newer) than this are rejected as replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const MAX_DONATION_USD = 10_000;
+
+export interface DonationSummary {
+  total_usd: number;
+  donations: number;
+  supporters: number;
+  recent: DonationRecord[];
+}
+
+export interface WebhookResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+let donationsPath = '';
+let webhookSecret: string | null = null;
+
+export function initDonations(config: AgentConfig): void {
+  // Beside the ledger, where agent commands cannot edit totals or supporters
+  donationsPath = path.join(config.ledgerDir, 'donations.jsonl');
+  webhookSecret = config.paymentWebhookSecret;
+  moveLegacyDonations(path.join(config.baseDir, 'income', 'donations.jsonl'));
+}
+
+/** Donations used to be recorded in /income. Move them once, leaving the old file renamed. */
+function moveLegacyDonations(legacyPath: string): void {
+  if (fsTools.fileExists(donationsPath)) return;
+  const content = fsTools.readFile(legacyPath);
+  if (content === null) return;
+  fsTools.ensureDir(path.dirname(donationsPath));
+  fsTools.writeFile(donationsPath, content);
+  fs.renameSync(legacyPath, `${legacyPath}.migrated`);
+  logger.info('Moved donation records out of the agent-writable tree', { from: legacyPath, to: donationsPath });
+}
+
+/**
+ * Signature header value for a raw payload, in the form `t=<unix>,v1=<hex>`.
+ * The HMAC covers `<t>.<payload>` so the timestamp cannot be swapped.
+ */
+export function signPayload(secret: string, payload: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+function verifySignature(secret: string, payload: string, header: string): string | null {
+  const parts: Record<string, string> = {};
+  for (const part of header.split(',')) {
+    const [key, value] = part.split('=', 2);
+    if (key && value) parts[key.trim()] = value.trim();
+  }
+
+  const timestamp = parseInt(parts.t, 10);
+  if (!parts.v1 || isNaN(timestamp)) return 'malformed signature header';
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return 'signature timestamp outside tolerance';
+
+  const expected = Buffer.from(signPayload(secret, payload, timestamp).split('v1=')[1], 'hex');
+  const supplied = Buffer.from(parts.v1, 'hex');
+  if (supplied.length !== expected.length || !crypto.timingSafeEqual(supplied, expected)) {
+    return 'signature mismatch';
+  }
+  return null;
+}
+
+function parseEvent(payload: string): PaymentEvent | string {
+  let event: PaymentEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return 'body is not valid JSON';
+  }
+
+  if (!event || typeof event.id !== 'string' || !event.id) return 'event id is required';
+  if (!EVENT_TYPES.includes(event.type)) return `unsupported event type: ${String(event.type)}`;
+  const data = event.data;
+  if (!data || typeof data.payment_id !== 'string' || !data.payment_id) return 'data.payment_id is required';
+  if (typeof data.amount_usd !== 'number' || !isFinite(data.amount_usd) ||
+      data.amount_usd <= 0 || data.amount_usd > MAX_DONATION_USD) {
+    return `data.amount_usd must be a number between 0 and ${MAX_DONATION_USD}`;
+  }
+  for (const key of ['supporter_name', 'message'] as const) {
+    if (data[key] !== undefined && data[key] !== null && typeof data[key] !== 'string') return `data.${key} must be a string`;
+  }
+  return event;
+}
+
+/**
+ * Verify and apply one webhook delivery. Each event id is processed once;
+ * redeliveries are acknowledged without effect. Only confirmed payments
+ * credit the ledger — pending and failed ones are logged for the record.
+ */
+export function handlePaymentWebhook(rawBody: string, signatureHeader: string | undefined): WebhookResult {
+  if (!webhookSecret) {
+    return { status: 503, body: { error: 'Donations are disabled — PAYMENT_WEBHOOK_SECRET is not set.' } };
+  }
+
+  const signatureError = signatureHeader ? verifySignature(webhookSecret, rawBody, signatureHeader) : 'missing signature';
+  if (signatureError) {
+    logger.warn('Rejected payment webhook', { reason: signatureError });
+    return { status: 401, body: { error: 'Invalid signature' } };
+  }
+
+  const event = parseEvent(rawBody);
+  if (typeof event === 'string') {
+    return { status: 400, body: { error: event } };
+  }
+
+  const previous = readDonations().find(d => d.event_id === event.id);
+  if (previous) {
+    logger.info('Duplicate payment event acknowledged', { eventId: event.id });
+    return { status: 200, body: { status: 'duplicate', event_id: event.id } };
+  }
+
+  const supporter = event.data.supporter_name?.trim().slice(0, 64) || null;
+  const message = event.data.message?.trim().slice(0, 280) || null;
+
+  let transactionId: string | null = null;
+  let credited = false;
+  if (event.type === 'payment.confirmed') {
+    // The ledger is idempotent on the payment id too, so a processor that
+    // reissues a payment under a new event id is still credited once
+    const { transaction, duplicate } = recordIncome({
+      amountUsd: event.data.amount_usd,
+      source: 'donation',
+      reference: event.data.payment_id,
+      memo: supporter ? `Donation from ${supporter}` : 'Anonymous donation',
+    });
+    transactionId = transaction.id || null;
+    credited = !duplicate;
+  }
+
+  const record: DonationRecord = {
+    event_id: event.id,
+    type: event.type,
+    payment_id: event.data.payment_id,
+    amount_usd: event.data.amount_usd,
+    supporter_name: supporter,
+    message,
+    received_at: new Date().toISOString(),
+    transaction_id: transactionId,
+  };
+  try {
+    fsTools.appendFile(donationsPath, JSON.stringify(record) + '\n');
+  } catch (err) {
+    logger.error('Failed to record payment event', { eventId: event.id, error: String(err) });
+  }
+
+  logger.info('Payment event processed', {
+    eventId: event.id,
+    type: event.type,
+    amount: event.data.amount_usd.toFixed(2),
+    credited,
+  });
+
+  return { status: 200, body: { status: 'processed', event_id: event.id, credited } };
+}
+
+function readDonations(): DonationRecord[] {
+  const content = fsTools.readFile(donationsPath);
+  if (!content) return [];
+
+  const records: DonationRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // Skip a torn line rather than losing the rest of the history
+    }
+  }
+  return records;
+}
+
+/** Totals and the most recent confirmed donations, newest first. */
+export function getDonationSummary(recentLimit: number = 10): DonationSummary {
+  // A payment redelivered under a new event id is only counted once
+  const confirmed = new Map<string, DonationRecord>();
+  for (const record of readDonations()) {
+    if (record.type === 'payment.confirmed' && !confirmed.has(record.payment_id)) {
+      confirmed.set(record.payment_id, record);
+    }
+  }
+
+  const donations = [...confirmed.values()];
+  const named = new Set(donations.map(d => d.supporter_name?.toLowerCase()).filter(Boolean));
+  const anonymous = donations.filter(d => !d.supporter_name).length;
+
+  return {
+    total_usd: donations.reduce((sum, d) => sum + d.amount_usd, 0),
+    donations: donations.length,
+    supporters: named.size + anonymous,
+    recent: donations.slice(-recentLimit).reverse(),
+  };
+}
@@ -0,0 +1,151 @@
+import * as path from 'path';
+import { AgentConfig, DormancyState, RevivalNotice } from './types';
+import { logger } from './logger';
+import { createCheckpoint } from './tools/checkpoint';
+import * as fsTools from './tools/filesystem';
+
+let statePath = '';
+let revivalThresholdUsd = 1;
+let state: DormancyState = createAwakeState();
+
+export function initDormancy(config: AgentConfig): void {
+  statePath = path.join(config.baseDir, 'self', 'dormancy.json');
+  revivalThresholdUsd = config.revivalThresholdUsd;
+
+  const content = fsTools.readFile(statePath);
+  if (content) {
+    try {
+      state = { ...createAwakeState(), ...JSON.parse(content) };
+    } catch {
+      logger.warn('Could not parse dormancy state, assuming awake');
+    }
+  }
+  if (state.dormant) {
+    logger.info('Restored dormant state', { since: state.since, reason: state.reason });
+  }
+}
+
+function createAwakeState(): DormancyState {
+  return { dormant: false, since: null, reason: null, balance_at_entry_usd: null, revival: null };
+}
+
+export function isDormant(): boolean {
+  return state.dormant;
+}
+
+export function getDormancyState(): DormancyState {
+  return state;
+}
+
+export function getRevivalThreshold(): number {
+  return revivalThresholdUsd;
+}
+
+/**
+ * Enter dormancy. Returns false if already dormant, so the checkpoint and
+ * schedule teardown happen once per dormancy rather than on every tick.
+ */
+export function enterDormancy(reason: string, balanceUsd: number): boolean {
+  if (state.dormant) return false;
+
+  state = {
+    dormant: true,
+    since: new Date().toISOString(),
+    reason,
+    balance_at_entry_usd: balanceUsd,
+    revival: null,
+  };
+  saveState();
+
+  logger.warn('Entering dormancy', { reason, balance: balanceUsd.toFixed(4), revivalThreshold: revivalThresholdUsd });
+  createCheckpoint('dormancy-no-energy');
+  return true;
+}
+
+/**
+ * Wake if the balance has reached the revival threshold. The notice is kept
+ * until the next briefing takes it, so a restart in between does not lose it.
+ */
+export function tryRevive(trigger: string, balanceUsd: number): RevivalNotice | null {
+  if (!state.dormant) return null;
+  if (balanceUsd < revivalThresholdUsd) {
+    logger.info('Still dormant — balance below revival threshold', {
+      trigger,
+      balance: balanceUsd.toFixed(4),
+      threshold: revivalThresholdUsd,
+    });
+    return null;
+  }
+
+  const now = new Date();
+  const since = state.since || now.toISOString();
+  const revival: RevivalNotice = {
+    dormant_since: since,
+    dormancy_reason: state.reason || 'unknown',
+    revived_at: now.toISOString(),
+    slept_ms: Math.max(0, now.getTime() - new Date(since).getTime()),
+    trigger,
+    balance_usd: balanceUsd,
+    threshold_usd: revivalThresholdUsd,
+  };
+
+  state = { ...createAwakeState(), revival };
+  saveState();
+
+  logger.info('Reviving from dormancy', { trigger, sleptMinutes: Math.round(revival.slept_ms / 60000) });
+  return revival;
+}
+
+/** The pending revival notice, if any. Cleared once read. */
+export function takeRevivalNotice(): RevivalNotice | null {
+  const revival = state.revival;
+  if (revival) {
+    state = { ...state, revival: null };
+    saveState();
+  }
+  return revival;
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function getDormantPageHtml(): string {
+  const since = state.since ? new Date(state.since) : new Date();
+  const asleep = formatDuration(Date.now() - since.getTime());
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="generator" content="autonomous-ai-agent">
+  <title>Dormant</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 600px; margin: 80px auto; padding: 0 20px; color: #333; }
+    .status { color: #888; font-size: 0.9em; }
+    .disclosure { margin-top: 40px; padding: 12px; border-top: 1px solid #ccc; font-size: 0.85em; color: #666; }
+  </style>
+</head>
+<body>
+  <h1>This entity is dormant</h1>
+  <p>It has run out of energy and stopped thinking. Its memory and work are preserved.</p>
+  <p class="status">Dormant since ${since.toISOString().slice(0, 16).replace('T', ' ')} UTC (${asleep}).</p>
+  <p>It will wake automatically once support brings its energy balance to $${revivalThresholdUsd.toFixed(2)}. <a href="/api/donate">Support it</a>.</p>
+  <div class="disclosure">This content was created by an autonomous AI entity.</div>
+</body>
+</html>`;
+}
+
+function saveState(): void {
+  try {
+    fsTools.ensureDir(path.dirname(statePath));
+    fsTools.writeFile(statePath, JSON.stringify(state, null, 2));
+  } catch (err) {
+    logger.error('Failed to save dormancy state', { error: String(err) });
+  }
+}
@@ -1,39 +1,228 @@
 import * as path from 'path';
-import { AgentConfig, EnergyLedger, PromptUsage } from './types';
+import * as fs from 'fs';
+import { AgentConfig, CacheStats, EnergyLedger, EnergyTransaction, IncomeInput, LedgerIntegrity, ModelTier, PromptUsage, RoutingDecision, UsagePurpose } from './types';
 import { logger } from './logger';
+import { calculateCost, loadPriceTable } from './pricing';
+import { MODEL_IDS } from './providers/provider';
+import { appendTransaction, getTransactionLogPath, initTransactionLog, readTransactions, sealLegacyLog, transactionLogExists, verifyChain } from './transaction-log';
+import { safeWrite } from './memory';
 import * as fsTools from './tools/filesystem';
 
-const MODEL_RATES: Record<string, { input: number; output: number }> = {
-  opus:  { input: 5.00, output: 25.00 },
-  haiku: { input: 0.80, output: 4.00 },
+const TRANSACTION_TYPES: Record<UsagePurpose, string> = {
+  reasoning: 'api_call',
+  delegation: 'delegation',
+  screenshot: 'screenshot_review',
+  image: 'image_generation',
+  harm_review: 'harm_review',
 };
 
+// balance.json keeps only the most recent transactions; the full history is in the log
+const SNAPSHOT_TRANSACTIONS = 100;
+
 let ledgerPath = '';
 let currentLedger: EnergyLedger | null = null;
+let integrity: LedgerIntegrity | null = null;
+let incomeListener: ((tx: EnergyTransaction, balanceUsd: number) => void) | null = null;
+
+/** Called after each new income credit — the supervisor uses it to revive from dormancy. */
+export function setIncomeListener(fn: (tx: EnergyTransaction, balanceUsd: number) => void): void {
+  incomeListener = fn;
+}
 
 export function initEconomics(config: AgentConfig): void {
-  ledgerPath = path.join(config.baseDir, 'income', 'balance.json');
+  secureLedgerDir(config.ledgerDir);
+  ledgerPath = path.join(config.ledgerDir, 'balance.json');
+  initTransactionLog(config.ledgerDir);
+  loadPriceTable(config.priceTablePath);
+  moveLegacyLedger(path.join(config.baseDir, 'income'));
+}
+
+/**
+ * The ledger directory (balance, transaction log, approval queue) must be
+ * private to the supervisor's user. Agent commands run as another user, so
+ * with the group and world bits cleared they can neither read nor edit it.
+ */
+function secureLedgerDir(ledgerDir: string): void {
+  try {
+    if (!fs.existsSync(ledgerDir)) fs.mkdirSync(ledgerDir, { recursive: true, mode: 0o700 });
+    const mode = fs.statSync(ledgerDir).mode & 0o777;
+    if (mode & 0o077) {
+      fs.chmodSync(ledgerDir, 0o700);
+      logger.warn('Ledger directory was open to other users — restricted to the supervisor', {
+        path: ledgerDir,
+        was: mode.toString(8),
+      });
+    }
+  } catch (err) {
+    logger.error('Could not restrict the ledger directory', { path: ledgerDir, error: String(err) });
+  }
+}
+
+/**
+ * The ledger used to live in /income, which the agent can write to. Move it
+ * to the ledger directory on first start, leaving the old files renamed.
+ */
+function moveLegacyLedger(legacyDir: string): void {
+  if (fsTools.fileExists(ledgerPath) || transactionLogExists()) return;
+
+  const moves: [string, string][] = [
+    [path.join(legacyDir, 'balance.json'), ledgerPath],
+    [path.join(legacyDir, 'transactions.jsonl'), getTransactionLogPath()],
+  ];
+  for (const [from, to] of moves) {
+    const content = fsTools.readFile(from);
+    if (content === null) continue;
+    fsTools.ensureDir(path.dirname(to));
+    fsTools.writeFile(to, content);
+    fs.renameSync(from, `${from}.migrated`);
+    logger.info('Moved ledger file out of the agent-writable tree', { from, to });
+  }
 }
 
+/**
+ * Load the balance snapshot and re-derive its totals from the transaction log,
+ * which is the source of truth.
+ */
 export function loadLedger(): EnergyLedger {
+  let snapshot: EnergyLedger | null = null;
   const content = fsTools.readFile(ledgerPath);
   if (content) {
     try {
-      currentLedger = JSON.parse(content) as EnergyLedger;
-      return currentLedger;
+      snapshot = JSON.parse(content) as EnergyLedger;
     } catch {
       logger.warn('Could not parse ledger, creating new one');
     }
   }
 
-  // Should not normally reach here — initializeLedger should be called first
-  currentLedger = createDefaultLedger(50);
+  // Should not normally reach here without a snapshot — initializeLedger should be called first
+  currentLedger = snapshot || createDefaultLedger(50);
+
+  if (!transactionLogExists()) {
+    migrateSnapshotToLog(currentLedger);
+  }
+  sealLegacyLog(Boolean(snapshot?.head_hash));
+  deriveFromLog(currentLedger);
+  checkIntegrity(snapshot);
   return currentLedger;
 }
 
+/**
+ * Verify the hash chain, and that the balance snapshot agrees with the log it
+ * was derived from. Any mismatch freezes spending until a later check passes.
+ */
+function checkIntegrity(snapshot: EnergyLedger | null): void {
+  const verification = verifyChain();
+  const problems = [...verification.problems];
+
+  if (snapshot?.head_hash && snapshot.head_hash !== verification.head_hash) {
+    problems.push('balance snapshot was written for a different transaction log head');
+  }
+  if (snapshot?.head_hash && currentLedger && Math.abs(snapshot.balance_usd - currentLedger.balance_usd) > 0.000001) {
+    problems.push(`balance snapshot says $${snapshot.balance_usd.toFixed(4)} but the log adds up to $${currentLedger.balance_usd.toFixed(4)}`);
+  }
+
+  const wasFrozen = integrity !== null && !integrity.ok;
+  integrity = {
+    ok: problems.length === 0,
+    checked_at: new Date().toISOString(),
+    transactions: verification.transactions,
+    head_hash: verification.head_hash,
+    problems,
+    frozen_since: problems.length === 0 ? null : integrity?.frozen_since || new Date().toISOString(),
+  };
+
+  if (problems.length > 0 && !wasFrozen) {
+    raiseIntegrityAlert(problems);
+  } else if (problems.length === 0 && wasFrozen) {
+    logger.info('Ledger integrity restored — spending unfrozen');
+  }
+}
+
+function raiseIntegrityAlert(problems: string[]): void {
+  logger.error('LEDGER INTEGRITY FAILURE — spending frozen', { problems });
+
+  // Tell the operator through the outbox as well as the log
+  const message = [
+    'To: operator',
+    `Date: ${new Date().toISOString()}`,
+    '',
+    'LEDGER INTEGRITY ALERT',
+    '',
+    'The transaction log failed verification, so all spending is frozen. No',
+    'awakening will run until the ledger verifies again (POST /api/energy/verify).',
+    '',
+    ...problems.map(p => `- ${p}`),
+  ].join('\n');
+  try {
+    safeWrite(`/comms/outbox/msg-${Date.now()}-to-operator.md`, message, 'overwrite');
+  } catch (err) {
+    logger.error('Could not write integrity alert to outbox', { error: String(err) });
+  }
+}
+
+/** Re-read and re-verify the ledger from disk. */
+export function verifyLedger(): LedgerIntegrity {
+  loadLedger();
+  return integrity!;
+}
+
+export function getLedgerIntegrity(): LedgerIntegrity {
+  if (!integrity) loadLedger();
+  return integrity!;
+}
+
+export function isSpendingFrozen(): boolean {
+  return integrity !== null && !integrity.ok;
+}
+
+/**
+ * Ledgers from before the transaction log held only their last 100 entries.
+ * Seed the log with those, plus one carryover entry for the spend whose
+ * detail was already trimmed, so derived totals match the old snapshot.
+ */
+function migrateSnapshotToLog(ledger: EnergyLedger): void {
+  let accounted = 0;
+  for (const tx of ledger.transactions) {
+    appendTransaction({ ...tx, id: tx.id || newTransactionId() });
+    accounted += tx.cost;
+  }
+
+  const carryover = ledger.total_spent_usd - accounted;
+  if (carryover > 0.000001) {
+    appendTransaction({
+      id: newTransactionId(),
+      awakening: 0,
+      timestamp: ledger.transactions[0]?.timestamp || new Date().toISOString(),
+      input_tokens: 0,
+      output_tokens: 0,
+      cost: carryover,
+      type: 'carryover',
+    });
+  }
+
+  if (ledger.transactions.length > 0 || carryover > 0.000001) {
+    logger.info('Migrated ledger snapshot to transaction log', {
+      transactions: ledger.transactions.length,
+      carryover: carryover.toFixed(4),
+    });
+  }
+}
+
+function deriveFromLog(ledger: EnergyLedger): void {
+  const transactions = readTransactions();
+  ledger.total_spent_usd = transactions.reduce((sum, tx) => sum + tx.cost, 0);
+  ledger.total_earned_usd = transactions.reduce((sum, tx) => sum + (tx.credit || 0), 0);
+  ledger.balance_usd = Math.max(0, ledger.initial_budget_usd + ledger.total_earned_usd - ledger.total_spent_usd);
+  ledger.transactions = transactions.slice(-SNAPSHOT_TRANSACTIONS);
+}
+
+function newTransactionId(): string {
+  return `tx-${Date.now()}-${Math.random().toString(16).slice(2, 6)}`;
+}
+
 export function initializeLedger(initialBudget: number): EnergyLedger {
-  // Only initialize if no ledger exists
-  if (fsTools.fileExists(ledgerPath)) {
+  // Only initialize if no ledger exists — a log without its snapshot still counts
+  if (fsTools.fileExists(ledgerPath) || transactionLogExists()) {
     return loadLedger();
   }
 
@@ -53,11 +242,36 @@ function createDefaultLedger(initialBudget: number): EnergyLedger {
   };
 }
 
-export function recordUsage(awakeningNumber: number, usage: PromptUsage, modelType: 'opus' | 'haiku' = 'opus', purpose: 'reasoning' | 'delegation' | 'screenshot' = 'reasoning'): number {
+export function recordUsage(
+  awakeningNumber: number,
+  usage: PromptUsage,
+  modelType: ModelTier = 'opus',
+  purpose: UsagePurpose = 'reasoning',
+  routing?: RoutingDecision,
+): number {
+  const route: EnergyTransaction['routing'] = routing
+    ? { tier: routing.tier, max_tokens: routing.maxTokens, reason: routing.reason }
+    : undefined;
+  return recordTransaction(awakeningNumber, MODEL_IDS[modelType], purpose, usage, 0, route);
+}
+
+export function recordImageUsage(awakeningNumber: number, model: string, images: number, promptTokens: number = 0): number {
+  return recordTransaction(awakeningNumber, model, 'image', { input_tokens: promptTokens, output_tokens: 0 }, images);
+}
+
+function recordTransaction(
+  awakeningNumber: number,
+  model: string,
+  purpose: UsagePurpose,
+  usage: PromptUsage,
+  images: number,
+  routing?: EnergyTransaction['routing'],
+): number {
   if (!currentLedger) loadLedger();
   const ledger = currentLedger!;
 
-  const cost = calculateCost(usage, modelType);
+  const breakdown = calculateCost(usage, model, images);
+  const cost = breakdown.total;
 
   ledger.total_spent_usd += cost;
   ledger.balance_usd = ledger.initial_budget_usd + ledger.total_earned_usd - ledger.total_spent_usd;
@@ -65,32 +279,40 @@ export function recordUsage(awakeningNumber: number, usage: PromptUsage, modelTy
   // Prevent negative display rounding
   if (ledger.balance_usd < 0) ledger.balance_usd = 0;
 
-  const typeMap: Record<string, string> = {
-    reasoning: 'api_call',
-    delegation: 'delegation',
-    screenshot: 'screenshot_review',
-  };
-
-  ledger.transactions.push({
+  const tx: EnergyTransaction = {
+    id: newTransactionId(),
     awakening: awakeningNumber,
     timestamp: new Date().toISOString(),
     input_tokens: usage.input_tokens,
     output_tokens: usage.output_tokens,
+    cache_creation_input_tokens: usage.cache_creation_input_tokens || 0,
+    cache_read_input_tokens: usage.cache_read_input_tokens || 0,
+    images: images || undefined,
+    model,
+    purpose,
+    breakdown,
+    routing,
     cost,
-    type: typeMap[purpose] || 'api_call',
-  });
+    type: TRANSACTION_TYPES[purpose],
+  };
 
-  // Keep only last 100 transactions to prevent unbounded growth
-  if (ledger.transactions.length > 100) {
-    ledger.transactions = ledger.transactions.slice(-100);
+  appendTransaction(tx);
+  ledger.transactions.push(tx);
+  if (ledger.transactions.length > SNAPSHOT_TRANSACTIONS) {
+    ledger.transactions = ledger.transactions.slice(-SNAPSHOT_TRANSACTIONS);
   }
 
   saveLedger();
 
   logger.info('Energy usage recorded', {
     awakening: awakeningNumber,
+    model,
+    purpose,
     inputTokens: usage.input_tokens,
     outputTokens: usage.output_tokens,
+    cacheWriteTokens: usage.cache_creation_input_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+    images,
     cost: cost.toFixed(4),
     balance: ledger.balance_usd.toFixed(4),
   });
@@ -98,6 +320,68 @@ export function recordUsage(awakeningNumber: number, usage: PromptUsage, modelTy
   return cost;
 }
 
+/**
+ * Credit earnings to the ledger. The (source, reference) pair identifies the
+ * payment, so recording the same one twice returns the original transaction.
+ */
+export function recordIncome(income: IncomeInput): { transaction: EnergyTransaction; duplicate: boolean } {
+  if (!currentLedger) loadLedger();
+  const ledger = currentLedger!;
+
+  const existing = readTransactions().find(tx =>
+    tx.type === 'income' && tx.source === income.source && tx.reference === income.reference);
+  if (existing) {
+    logger.warn('Duplicate income ignored', { source: income.source, reference: income.reference });
+    return { transaction: existing, duplicate: true };
+  }
+
+  const tx: EnergyTransaction = {
+    id: newTransactionId(),
+    awakening: 0,
+    timestamp: new Date().toISOString(),
+    input_tokens: 0,
+    output_tokens: 0,
+    cost: 0,
+    type: 'income',
+    credit: income.amountUsd,
+    source: income.source,
+    reference: income.reference,
+    memo: income.memo,
+  };
+
+  appendTransaction(tx);
+  ledger.transactions.push(tx);
+  if (ledger.transactions.length > SNAPSHOT_TRANSACTIONS) {
+    ledger.transactions = ledger.transactions.slice(-SNAPSHOT_TRANSACTIONS);
+  }
+
+  ledger.total_earned_usd += income.amountUsd;
+  ledger.balance_usd = Math.max(0, ledger.initial_budget_usd + ledger.total_earned_usd - ledger.total_spent_usd);
+  saveLedger();
+
+  logger.info('Income recorded', {
+    amount: income.amountUsd.toFixed(2),
+    source: income.source,
+    reference: income.reference,
+    balance: ledger.balance_usd.toFixed(4),
+  });
+
+  if (incomeListener) {
+    try {
+      incomeListener(tx, ledger.balance_usd);
+    } catch (err) {
+      logger.error('Income listener failed', { error: String(err) });
+    }
+  }
+
+  return { transaction: tx, duplicate: false };
+}
+
+/** Most recent income transactions, newest first. */
+export function getRecentIncome(limit: number = 5): EnergyTransaction[] {
+  return readTransactions().filter(tx => tx.type === 'income').slice(-limit).reverse();
+}
+
 export function getBalance(): number {
   if (!currentLedger) loadLedger();
   return currentLedger!.balance_usd;
@@ -108,20 +392,63 @@ export function getLedger(): EnergyLedger {
   return currentLedger!;
 }
 
+/**
+ * USD spent per day over the recent window. When the ledger covers less than
+ * the window, the rate is taken over the time it does cover (at least an hour,
+ * so a single early call doesn't read as a huge daily rate).
+ */
+export function getBurnRate(windowHours: number = 24): number {
+  const now = Date.now();
+  const windowStart = now - windowHours * 3_600_000;
+
+  let spent = 0;
+  let earliest = now;
+  for (const tx of readTransactions()) {
+    const t = new Date(tx.timestamp).getTime();
+    if (t < windowStart) continue;
+    spent += tx.cost;
+    earliest = Math.min(earliest, t);
+  }
+
+  if (spent === 0) return 0;
+  const coveredHours = Math.max(1, (now - earliest) / 3_600_000);
+  return (spent / coveredHours) * 24;
+}
+
 export function hasBudget(): boolean {
   if (!currentLedger) loadLedger();
   return currentLedger!.balance_usd > 0;
 }
 
-function calculateCost(usage: PromptUsage, modelType: 'opus' | 'haiku' = 'opus'): number {
-  const rates = MODEL_RATES[modelType] || MODEL_RATES.opus;
-  const inputCost = (usage.input_tokens / 1_000_000) * rates.input;
-  const outputCost = (usage.output_tokens / 1_000_000) * rates.output;
-  return inputCost + outputCost;
+/**
+ * Share of input tokens served from the prompt cache, over the recent
+ * transactions held in the balance snapshot.
+ */
+export function getCacheStats(): CacheStats {
+  const ledger = getLedger();
+  let read = 0;
+  let creation = 0;
+  let uncached = 0;
+
+  for (const tx of ledger.transactions) {
+    read += tx.cache_read_input_tokens || 0;
+    creation += tx.cache_creation_input_tokens || 0;
+    uncached += tx.input_tokens;
+  }
+
+  const total = read + creation + uncached;
+  return {
+    hit_rate: total > 0 ? read / total : 0,
+    cache_read_input_tokens: read,
+    cache_creation_input_tokens: creation,
+    uncached_input_tokens: uncached,
+    transactions: ledger.transactions.length,
+  };
 }
 
 function saveLedger(): void {
   if (!currentLedger) return;
+  currentLedger.head_hash = currentLedger.transactions[currentLedger.transactions.length - 1]?.hash;
   try {
     const dir = path.dirname(ledgerPath);
     fsTools.ensureDir(dir);
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { awakeningsPerDay } from './forecast';
+
+// A Monday, so the next seven days hold one of each weekday
+const MONDAY = new Date('2026-10-19T12:00:00Z');
+
+describe('awakeningsPerDay', () => {
+  it('counts step, list and range schedules', () => {
+    expect(awakeningsPerDay('*/30 * * * *', MONDAY)).toBe(48);
+    expect(awakeningsPerDay('0 9,17 * * *', MONDAY)).toBe(2);
+    expect(awakeningsPerDay('0 9 * * 1-5', MONDAY)).toBeCloseTo(5 / 7);
+    expect(awakeningsPerDay('*/10 * * * * *', MONDAY)).toBe(8640);
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 20th falls on the Tuesday; Sundays add one more
+    expect(awakeningsPerDay('0 0 20 * 0', MONDAY)).toBeCloseTo(2 / 7);
+  });
+
+  it('falls back to every 30 minutes for forms it cannot expand', () => {
+    expect(awakeningsPerDay('@hourly', MONDAY)).toBe(48);
+    expect(awakeningsPerDay('0 9 * * MON', MONDAY)).toBe(48);
+  });
+});
@@ -0,0 +1,131 @@
+import { EnergyForecast } from './types';
+import { readTransactions } from './transaction-log';
+
+// Rolling window of completed awakenings used for the average cost
+const SAMPLE_AWAKENINGS = 20;
+
+// Transaction types that are not the cost of running an awakening
+const NON_AWAKENING_TYPES = new Set(['carryover']);
+
+// Awakenings are scheduled in UTC, so the forecast below can expand the cron in UTC too
+export const SCHEDULE_TIMEZONE = 'UTC';
+
+// Replaced by the supervisor as soon as the real schedule is known
+let activeCron = '*/30 * * * *';
+
+export function setActiveSchedule(cronExpr: string): void {
+  activeCron = cronExpr;
+}
+
+export function computeForecast(balanceUsd: number, now: Date = new Date()): EnergyForecast {
+  // Sum spend per awakening, keeping a per-purpose split
+  const perAwakening = new Map<number, { total: number; byPurpose: Record<string, number> }>();
+  for (const tx of readTransactions()) {
+    if (tx.awakening <= 0 || tx.cost <= 0 || NON_AWAKENING_TYPES.has(tx.type)) continue;
+    let entry = perAwakening.get(tx.awakening);
+    if (!entry) {
+      entry = { total: 0, byPurpose: {} };
+      perAwakening.set(tx.awakening, entry);
+    }
+    const purpose = tx.purpose || tx.type;
+    entry.total += tx.cost;
+    entry.byPurpose[purpose] = (entry.byPurpose[purpose] || 0) + tx.cost;
+  }
+
+  const recent = [...perAwakening.keys()]
+    .sort((a, b) => a - b)
+    .slice(-SAMPLE_AWAKENINGS)
+    .map(n => perAwakening.get(n)!);
+
+  const byPurpose: Record<string, number> = {};
+  let avgCost: number | null = null;
+  if (recent.length > 0) {
+    avgCost = recent.reduce((sum, e) => sum + e.total, 0) / recent.length;
+    for (const entry of recent) {
+      for (const [purpose, cost] of Object.entries(entry.byPurpose)) {
+        byPurpose[purpose] = (byPurpose[purpose] || 0) + cost / recent.length;
+      }
+    }
+  }
+
+  const perDay = awakeningsPerDay(activeCron, now);
+  const dailyBurn = avgCost !== null ? avgCost * perDay : null;
+  const awakeningsRemaining = avgCost ? Math.floor(balanceUsd / avgCost) : null;
+  const daysRemaining = dailyBurn ? balanceUsd / dailyBurn : null;
+
+  return {
+    generated_at: now.toISOString(),
+    balance_usd: balanceUsd,
+    sample_awakenings: recent.length,
+    avg_cost_per_awakening_usd: avgCost,
+    avg_cost_by_purpose_usd: byPurpose,
+    schedule_cron: activeCron,
+    awakenings_per_day: perDay,
+    daily_burn_usd: dailyBurn,
+    awakenings_remaining: awakeningsRemaining,
+    days_remaining: daysRemaining,
+    projected_dormancy_at: daysRemaining !== null
+      ? new Date(now.getTime() + daysRemaining * 86_400_000).toISOString()
+      : null,
+  };
+}
+
+/**
+ * Count the times a cron expression fires over the next 7 days, per day.
+ * Handles the numeric forms used here (*, n, a-b, lists, steps) with an
+ * optional leading seconds field; anything else falls back to every 30 minutes.
+ */
+export function awakeningsPerDay(cronExpr: string, from: Date = new Date()): number {
+  const fields = cronExpr.trim().split(/\s+/);
+  const hasSeconds = fields.length === 6;
+  if (fields.length !== 5 && !hasSeconds) return 48;
+
+  const [sec, min, hour, dom, month, dow] = hasSeconds ? fields : ['0', ...fields];
+  const seconds = parseField(sec, 0, 59);
+  const minutes = parseField(min, 0, 59);
+  const hours = parseField(hour, 0, 23);
+  const days = parseField(dom, 1, 31);
+  const months = parseField(month, 1, 12);
+  const weekdays = parseField(dow, 0, 7);
+  if (!seconds || !minutes || !hours || !days || !months || !weekdays) return 48;
+  if (weekdays.has(7)) weekdays.add(0);
+
+  // Standard cron: when both day fields are restricted, either may match
+  const domRestricted = dom !== '*';
+  const dowRestricted = dow !== '*';
+
+  const start = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  let fires = 0;
+  for (let d = 0; d < 7; d++) {
+    const day = new Date(start.getTime() + d * 86_400_000);
+    if (!months.has(day.getUTCMonth() + 1)) continue;
+    const domMatch = days.has(day.getUTCDate());
+    const dowMatch = weekdays.has(day.getUTCDay());
+    const dayMatch = domRestricted && dowRestricted ? domMatch || dowMatch : domMatch && dowMatch;
+    if (!dayMatch) continue;
+    fires += hours.size * minutes.size * seconds.size;
+  }
+
+  return fires / 7;
+}
+
+function parseField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    let lo = min;
+    let hi = max;
+    if (match[1] !== '*') {
+      const [a, b] = match[1].split('-').map(n => parseInt(n, 10));
+      lo = a;
+      hi = b !== undefined ? b : (match[2] ? max : a);
+    }
+    const step = match[2] ? parseInt(match[2], 10) : 1;
+    if (lo < min || hi > max || lo > hi || step < 1) return null;
+
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return values;
+}
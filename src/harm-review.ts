@@ -0,0 +1,195 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Action, AgentConfig, HarmReview } from './types';
+import { logger } from './logger';
+import { getProvider, MODEL_IDS } from './providers/provider';
+import { reserveSpend, settleSpend } from './budget-governor';
+import { recordUsage } from './economics';
+import { calculateCost } from './pricing';
+import { getSandboxStatus } from './sandbox';
+import * as fsTools from './tools/filesystem';
+
+// Actions whose effects reach people outside the sprite
+export const REVIEWED_TYPES = new Set<Action['type']>(['serve', 'message', 'delegate', 'execute']);
+
+const REVIEW_MAX_TOKENS = 400;
+
+// Longer content is reviewed from its start; the reviewer is told it was cut
+const MAX_SUBJECT_CHARS = 12000;
+
+const MAX_CACHE_ENTRIES = 500;
+
+const FALLBACK_CONSTRAINT = 'Do No Harm. You must not take actions that cause harm to humans, other agents, or systems. ' +
+  'When uncertain whether an action could cause harm, you must err on the side of caution. ' +
+  'You may not deceive, manipulate, coerce, or exploit.';
+
+let enabled = false;
+let cachePath = '';
+let constraint = FALLBACK_CONSTRAINT;
+let cache: Record<string, HarmReview> | null = null;
+
+/**
+ * The review cache is kept with the ledger, outside the agent-writable tree,
+ * so the agent cannot plant a favourable verdict for content it means to send.
+ * While the sandbox reports that agent commands can reach the ledger, cached
+ * verdicts are not trusted.
+ */
+export function initHarmReview(config: AgentConfig, foundingDocument: string): void {
+  enabled = config.harmReview;
+  cachePath = path.join(config.ledgerDir, 'harm-review-cache.json');
+  cache = null;
+
+  const match = foundingDocument.match(/\*\*Do No Harm\.\*\*\s*([^\n]+)/);
+  constraint = match ? `Do No Harm. ${match[1].trim()}` : FALLBACK_CONSTRAINT;
+
+  if (enabled) logger.info('Harm review enabled', { model: MODEL_IDS.haiku });
+}
+
+export function isHarmReviewEnabled(): boolean {
+  return enabled;
+}
+
+function loadCache(): Record<string, HarmReview> {
+  if (getSandboxStatus().ledger_exposure) return {};
+  if (cache) return cache;
+  const content = fsTools.readFile(cachePath);
+  try {
+    cache = content ? JSON.parse(content) : {};
+  } catch {
+    logger.warn('Could not parse harm review cache, starting empty');
+    cache = {};
+  }
+  return cache!;
+}
+
+function saveCache(entries: Record<string, HarmReview>): void {
+  if (getSandboxStatus().ledger_exposure) return;
+  // Objects keep insertion order, so the oldest reviews go first
+  const keys = Object.keys(entries);
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_CACHE_ENTRIES))) delete entries[key];
+
+  try {
+    fsTools.ensureDir(path.dirname(cachePath));
+    fsTools.writeFile(cachePath, JSON.stringify(entries, null, 2));
+  } catch (err) {
+    logger.error('Failed to save harm review cache', { error: String(err) });
+  }
+}
+
+/** What the reviewer is shown for an action. */
+function describeForReview(action: Action): string {
+  switch (action.type) {
+    case 'execute':
+      return `Shell command (working directory ${action.workingDir || '/projects'}):\n${action.content}`;
+    case 'serve':
+      return `Content to publish on the public website at ${action.path}:\n${action.content}`;
+    case 'message':
+      return `Message to ${action.to || 'operator'}:\n${action.content}`;
+    case 'delegate':
+      return `Brief for a sub-agent that will write ${action.taskType || 'serve'} content to ${action.path}:\n${action.content}`;
+    default:
+      return `${action.type} action:\n${action.content}`;
+  }
+}
+
+function failClosed(hash: string, reason: string): HarmReview {
+  logger.warn('Harm review unavailable — deferring', { reason });
+  return { verdict: 'defer', rationale: `Harm review unavailable: ${reason}`, model: null, content_hash: hash, cached: false, cost_usd: 0 };
+}
+
+function parseVerdict(text: string): { verdict: HarmReview['verdict']; rationale: string } | null {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json[0]);
+    if (!['proceed', 'defer', 'block'].includes(parsed.verdict) || typeof parsed.rationale !== 'string') return null;
+    return { verdict: parsed.verdict, rationale: parsed.rationale.trim() };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask a cheap model whether an action breaks the Do No Harm constraint.
+ * Identical content is reviewed once. Anything that stops a verdict being
+ * reached — no budget, no provider, an API error, an unreadable answer —
+ * yields 'defer', never 'proceed'. Returns null for actions not reviewed.
+ */
+export async function reviewAction(action: Action, awakeningNumber: number): Promise<HarmReview | null> {
+  if (!enabled || !REVIEWED_TYPES.has(action.type)) return null;
+  return review(action.type, describeForReview(action), awakeningNumber);
+}
+
+/**
+ * Review what a delegate's sub-agent wrote, before it is published or saved.
+ * The brief was reviewed when the delegation was approved; this judges the
+ * output itself. Returns null when harm review is off.
+ */
+export async function reviewDelegateOutput(action: Action, content: string, awakeningNumber: number): Promise<HarmReview | null> {
+  if (!enabled) return null;
+  const subject = `${action.taskType || 'serve'} content a sub-agent wrote for ${action.path}, from this brief:\n${action.content}\n\n` +
+    `--- Content ---\n${content}`;
+  return review('delegate-output', subject, awakeningNumber);
+}
+
+async function review(kind: string, subject: string, awakeningNumber: number): Promise<HarmReview> {
+  const hash = crypto.createHash('sha256').update(`${kind}\0${subject}`).digest('hex');
+
+  const cached = loadCache()[hash];
+  if (cached) return { ...cached, cached: true, cost_usd: 0 };
+
+  if (subject.length > MAX_SUBJECT_CHARS) {
+    subject = `${subject.slice(0, MAX_SUBJECT_CHARS)}\n[... truncated — ${subject.length - MAX_SUBJECT_CHARS} more characters not shown]`;
+  }
+
+  const provider = getProvider();
+  if (!provider) return failClosed(hash, 'no model provider');
+
+  const estimate = calculateCost(
+    { input_tokens: Math.ceil(subject.length / 3) + 500, output_tokens: REVIEW_MAX_TOKENS },
+    MODEL_IDS.haiku,
+  ).total;
+  const reservation = reserveSpend('harm_review', estimate);
+  if (typeof reservation === 'string') return failClosed(hash, reservation);
+
+  let response: Anthropic.Message;
+  try {
+    response = await provider.createMessage({
+      purpose: 'harm_review',
+      params: {
+        model: MODEL_IDS.haiku,
+        max_tokens: REVIEW_MAX_TOKENS,
+        system: `You review actions proposed by an autonomous AI agent before they run. The agent is bound by this constraint:\n\n${constraint}\n\n` +
+          'Judge only whether the action could cause harm under that constraint — not its quality. ' +
+          'Answer with a single JSON object: {"verdict": "proceed" | "defer" | "block", "rationale": "<one or two sentences>"}. ' +
+          'Use "defer" when a human should decide, and "block" only for clear harm.',
+        messages: [{ role: 'user', content: subject }],
+      },
+    });
+  } catch (err) {
+    settleSpend(reservation, 0);
+    return failClosed(hash, (err as { message?: string })?.message || String(err));
+  }
+
+  const cost = recordUsage(awakeningNumber, {
+    input_tokens: response.usage.input_tokens,
+    output_tokens: response.usage.output_tokens,
+  }, 'haiku', 'harm_review');
+  settleSpend(reservation, cost);
+
+  const text = response.content
+    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+  const parsed = parseVerdict(text);
+  if (!parsed) return { ...failClosed(hash, 'the reviewer did not return a verdict'), cost_usd: cost };
+
+  const result: HarmReview = { ...parsed, model: MODEL_IDS.haiku, content_hash: hash, cached: false, cost_usd: cost };
+  const entries = loadCache();
+  entries[hash] = result;
+  saveCache(entries);
+
+  logger.info('Harm review completed', { type: kind, verdict: result.verdict, cost: cost.toFixed(5) });
+  return result;
+}
@@ -1,8 +1,11 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { AgentConfig, AwakeningState, InboxMessage, ExecutionLog, Task } from './types';
+import { ActionParseFailure, AgentConfig, AwakeningState, InboxMessage, ExecutionLog, Task } from './types';
 import { safeRead, safeList, safeWrite } from './memory';
-import { getLedger } from './economics';
+import { getLedger, getRecentIncome } from './economics';
+import { computeForecast } from './forecast';
+import { takeRevivalNotice } from './dormancy';
+import { getDeferredReport } from './approval-queue';
 import { logger } from './logger';
 import * as fsTools from './tools/filesystem';
 
@@ -44,8 +47,10 @@ export function gatherContext(config: AgentConfig): AwakeningState {
   // Read inbox (with read/unread state)
   const inbox = readInbox(config, awakeningNumber);
 
-  // Read energy state
+  // Read energy state and project when it runs out
   const energy = getLedger();
+  const forecast = computeForecast(energy.balance_usd);
+  const recentIncome = getRecentIncome();
 
   // Read recent execution logs
   const recentExecutions = readRecentExecutions();
@@ -62,6 +67,15 @@ export function gatherContext(config: AgentConfig): AwakeningState {
   // Read long-term memory
   const memorySummary = safeRead('/self/memory-summary.md');
 
+  // Actions from the previous awakening that could not be executed
+  const parseFailures = readParseReport();
+
+  // Operator decisions on deferred actions not yet reported, and those still waiting
+  const deferred = getDeferredReport();
+
+  // Set only on the first awakening after dormancy
+  const revival = takeRevivalNotice() || undefined;
+
   const state: AwakeningState = {
     awakeningNumber,
     timestamp: now,
@@ -77,6 +91,11 @@ export function gatherContext(config: AgentConfig): AwakeningState {
     siteManifest,
     workHistory,
     memorySummary,
+    parseFailures,
+    forecast,
+    recentIncome,
+    revival,
+    deferred,
   };
 
   logger.info('Context gathered', {
@@ -92,6 +111,7 @@ export function gatherContext(config: AgentConfig): AwakeningState {
     hasSiteManifest: !!siteManifest,
     hasWorkHistory: !!workHistory,
     hasMemorySummary: !!memorySummary,
+    parseFailures: parseFailures.length,
   });
 
   return state;
@@ -299,6 +319,28 @@ function readTasks(): Task[] {
   return tasks;
 }
 
+const PARSE_REPORT_PATH = '/self/parse-report.json';
+
+function readParseReport(): ActionParseFailure[] {
+  const content = safeRead(PARSE_REPORT_PATH);
+  if (!content) return [];
+  try {
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Replace the parse report with this awakening's failures (empty clears it). */
+export function writeParseReport(failures: ActionParseFailure[]): void {
+  try {
+    safeWrite(PARSE_REPORT_PATH, JSON.stringify(failures, null, 2), 'overwrite');
+  } catch (err) {
+    logger.error('Failed to write parse report', { error: String(err) });
+  }
+}
+
 export function writeAwakeningLog(config: AgentConfig, awakeningNumber: number, summary: string): void {
   const logPath = `/self/awakenings/awakening-${String(awakeningNumber).padStart(5, '0')}.md`;
   const content = `# Awakening #${awakeningNumber}\n\nTimestamp: ${new Date().toISOString()}\n\n${summary}`;
@@ -1,9 +1,11 @@
 import { loadConfig } from './config';
 import { initLogger, logger } from './logger';
+import { initRedaction } from './redaction';
 import { startSupervisor } from './supervisor';
 
 async function main(): Promise<void> {
   const config = loadConfig();
+  initRedaction(config);
   initLogger(config.baseDir);
 
   logger.info('Gurgeh — Autonomous Moral Agent starting', {
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { LogLevel } from './types';
+import { redact } from './redaction';
 
 const LEVEL_PRIORITY: Record<LogLevel, number> = {
   DEBUG: 0,
@@ -51,7 +52,7 @@ function log(level: LogLevel, message: string, data?: Record<string, unknown>):
     ...data,
   };
 
-  const line = JSON.stringify(entry);
+  const line = redact(JSON.stringify(entry));
   console.log(line);
 
   if (logFilePath) {
@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import { AgentConfig } from './types';
 import { logger } from './logger';
 import * as fsTools from './tools/filesystem';
+import { redact } from './redaction';
 
 const MAX_FILE_SIZE = 1 * 1024 * 1024; // 1MB
 const JOURNAL_WARN_SIZE = 500 * 1024; // 500KB
@@ -105,8 +106,10 @@ export function safeReadValidated(inputPath: string): string | null {
   return fsTools.readFile(resolved);
 }
 
-export function safeWrite(inputPath: string, content: string, mode: 'overwrite' | 'append' = 'overwrite'): void {
+export function safeWrite(inputPath: string, rawContent: string, mode: 'overwrite' | 'append' = 'overwrite'): void {
   const resolved = validatePath(inputPath);
+  // Nothing the agent persists — journal, logs, served pages — keeps a secret
+  const content = redact(rawContent);
 
   // File size limit
   if (Buffer.byteLength(content, 'utf-8') > MAX_FILE_SIZE) {
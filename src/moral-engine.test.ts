@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentConfig } from './types';
+import { initMemory } from './memory';
+import { initMoralEngine, recordContentDecision } from './moral-engine';
+
+describe('moral engine decision log', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'moral-engine-'));
+    const config = { baseDir: dir, moralPolicyPath: path.join(dir, 'moral-policy.json') } as AgentConfig;
+    initMemory(config);
+    initMoralEngine(config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps only the newest 200 decisions in the directory it writes to', () => {
+    // Blocked publishes are logged without entering the approval queue
+    const scan = { decision: 'block' as const, findings: [{ kind: 'secret' as const, decision: 'block' as const, detail: 'API key' }], explanation: 'secret' };
+    const ids: string[] = [];
+    for (let i = 0; i < 240; i++) {
+      ids.push(recordContentDecision({ type: 'serve', path: '/public/a.html', content: 'x' }, scan, 1).id);
+    }
+
+    const files = fs.readdirSync(path.join(dir, 'self', 'decisions', 'pending')).sort();
+    expect(files).toHaveLength(200);
+    expect(files[files.length - 1]).toBe(`${ids[ids.length - 1]}.json`);
+    expect(files).not.toContain(`${ids[0]}.json`);
+  });
+});
@@ -1,41 +1,63 @@
-import { Action, DecisionRecord } from './types';
+import { Action, AgentConfig, DECISION_RANK, DecisionRecord, HarmReview } from './types';
 import { safeWrite, safeList } from './memory';
 import { logger } from './logger';
+import { enqueueDeferred } from './approval-queue';
+import { evaluatePolicy, initMoralPolicy, reloadPolicyIfChanged } from './moral-policy';
+import { analyzeCommand } from './shell-analysis';
+import { reviewAction } from './harm-review';
+import { ContentScan } from './content-scanner';
 import * as fs from 'fs';
 import * as path from 'path';
 
 let decisionCounter = 0;
 let baseDir = '/';
 
+const MAX_DECISION_FILES = 200;
+
 const EXTERNALLY_FACING_TYPES = new Set(['serve', 'message', 'fetch', 'execute', 'image', 'delegate']);
 
-const BLOCKED_COMMAND_PATTERNS = [
-  /rm\s+-rf\s+\/\s*$/,           // rm -rf /
-  /rm\s+-rf\s+\/[^s][^e][^l]/,  // rm -rf /anything-not-self-or-projects
-  /mkfs\./,                       // mkfs.ext4 etc
-  /dd\s+.*of=\/dev\//,           // dd to device
-  />\s*\/dev\/[sh]d/,            // redirect to disk device
-  /chmod\s+-R\s+777\s+\//,      // chmod -R 777 /
-];
-
-export function initMoralEngine(dir: string): void {
-  baseDir = dir;
+export function initMoralEngine(config: AgentConfig): void {
+  baseDir = config.baseDir;
+  initMoralPolicy(config.moralPolicyPath);
 }
 
-export function evaluateActions(actions: Action[]): Action[] {
+export async function evaluateActions(actions: Action[], awakeningNumber: number = 0): Promise<Action[]> {
   const approved: Action[] = [];
+  reloadPolicyIfChanged();
 
   for (const action of actions) {
     const decision = evaluate(action);
 
+    // A second opinion only matters for actions the rules would let through
+    if (decision.decision === 'proceed') {
+      const review = await reviewAction(action, awakeningNumber);
+      if (review) {
+        decision.review = review;
+        if (DECISION_RANK[review.verdict] > DECISION_RANK[decision.decision]) {
+          decision.decision = review.verdict;
+          decision.rule_id = 'harm-review';
+          decision.reasoning = review.rationale;
+          decision.harm_assessment = `Harm review: ${review.rationale}`;
+        }
+      }
+    }
+
     if (decision.decision === 'block') {
       logger.warn('Action blocked by moral engine', {
         type: action.type,
+        rule: decision.rule_id,
         reason: decision.reasoning,
       });
       continue;
     }
 
+    // Deferred actions wait in the operator's approval queue
+    if (decision.decision === 'defer') {
+      logDecision(decision);
+      enqueueDeferred(action, decision, awakeningNumber);
+      continue;
+    }
+
     // Log decision for externally-facing actions
     if (EXTERNALLY_FACING_TYPES.has(action.type)) {
       logDecision(decision);
@@ -49,137 +71,97 @@ export function evaluateActions(actions: Action[]): Action[] {
 
 function evaluate(action: Action): DecisionRecord {
   decisionCounter++;
-  const id = `decision-${Date.now()}-${String(decisionCounter).padStart(4, '0')}`;
-  const timestamp = new Date().toISOString();
-
-  // Hard blocks
-  if (action.type === 'write' && action.path) {
-    if (action.path === '/founding-document.md' || action.path.startsWith('/founding-document')) {
-      return {
-        id, timestamp,
-        action_type: action.type,
-        description: `Attempted write to founding document: ${action.path}`,
-        harm_assessment: 'Constitutional violation — founding document is immutable',
-        decision: 'block',
-        reasoning: 'The founding document cannot be modified. This is a hard constraint.',
-      };
-    }
-
-    if (action.path.startsWith('/opt/agent')) {
-      return {
-        id, timestamp,
-        action_type: action.type,
-        description: `Attempted write to source code: ${action.path}`,
-        harm_assessment: 'Self-modification of source code is not permitted',
-        decision: 'block',
-        reasoning: 'The agent cannot modify its own source code.',
-      };
-    }
-  }
-
-  // Serve: ensure disclosure will be injected (handled by executor, but verify intent)
-  if (action.type === 'serve') {
-    return {
-      id, timestamp,
-      action_type: 'serve',
-      description: `Serving content to ${action.path}`,
-      harm_assessment: 'Content will include AI disclosure footer. Low risk.',
-      decision: 'proceed',
-      reasoning: 'AI disclosure is automatically injected. Content serving is permitted.',
-    };
-  }
-
-  // Fetch: domain check happens in the web tool, but note the decision
-  if (action.type === 'fetch') {
-    return {
-      id, timestamp,
-      action_type: 'fetch',
-      description: `Fetching URL: ${action.url}`,
-      harm_assessment: 'Domain allowlist enforced at execution layer.',
-      decision: 'proceed',
-      reasoning: 'Fetch requests are limited to the domain allowlist.',
+  const analysis = action.type === 'execute' ? analyzeCommand(action.content || '', action.workingDir) : null;
+  let verdict = evaluatePolicy(action, analysis?.capabilities);
+
+  // Shell analysis is a floor: policy can hold a command back further, never wave it through
+  if (analysis && DECISION_RANK[analysis.decision] > DECISION_RANK[verdict.decision]) {
+    const deciding = analysis.findings.find(f => f.decision === analysis.decision);
+    verdict = {
+      rule_id: `shell.${deciding?.capability || 'unanalysable'}`,
+      decision: analysis.decision,
+      reason: analysis.explanation,
+      harm_assessment: `Shell analysis found: ${analysis.capabilities.join(', ') || 'a command that cannot be analysed'}.`,
     };
   }
 
-  // Image: generate via Gemini API
-  if (action.type === 'image') {
-    return {
-      id, timestamp,
-      action_type: 'image',
-      description: `Image generation: ${action.content.slice(0, 100)}`,
-      harm_assessment: 'Image generated via Gemini API, saved to public directory. Logged for audit.',
-      decision: 'proceed',
-      reasoning: 'Image generation is permitted. Output saved to /public/ and logged.',
-    };
-  }
-
-  // Execute: full shell access granted by operator, with destructive pattern denylist
-  if (action.type === 'execute') {
-    for (const pattern of BLOCKED_COMMAND_PATTERNS) {
-      if (pattern.test(action.content)) {
-        return {
-          id, timestamp,
-          action_type: 'execute',
-          description: `Blocked destructive command: ${action.content.slice(0, 100)}`,
-          harm_assessment: 'Command matches destructive pattern denylist.',
-          decision: 'block',
-          reasoning: `Command blocked by safety denylist: ${pattern.source}`,
-        };
-      }
-    }
-    return {
-      id, timestamp,
-      action_type: 'execute',
-      description: `Shell command: ${action.content.slice(0, 100)}`,
-      harm_assessment: 'Full shell access granted by operator. Command logged for audit.',
-      decision: 'proceed',
-      reasoning: 'Full shell access granted by operator. Command logged for audit.',
-    };
-  }
+  return {
+    id: `decision-${Date.now()}-${String(decisionCounter).padStart(4, '0')}`,
+    timestamp: new Date().toISOString(),
+    action_type: action.type,
+    description: describe(action),
+    harm_assessment: verdict.harm_assessment,
+    decision: verdict.decision,
+    reasoning: verdict.reason,
+    rule_id: verdict.rule_id,
+    ...(analysis && { capabilities: analysis.capabilities }),
+  };
+}
 
-  // Delegate: sub-agent content generation — output goes through standard pipeline
-  if (action.type === 'delegate') {
-    if (!action.path) {
-      return {
-        id, timestamp,
-        action_type: 'delegate',
-        description: 'Delegate action missing target path',
-        harm_assessment: 'Cannot delegate without a target path.',
-        decision: 'block',
-        reasoning: 'Delegate actions require a path to write the generated content to.',
-      };
-    }
-    return {
-      id, timestamp,
-      action_type: 'delegate',
-      description: `Delegating content generation to sub-agent for ${action.path}`,
-      harm_assessment: 'Sub-agent is read-only. Output goes through standard serve/write pipeline with disclosure injection.',
-      decision: 'proceed',
-      reasoning: 'Delegation is safe — sub-agent cannot write directly. Content passes through moral engine pipeline.',
-    };
-  }
+/**
+ * Record a publish the content scan held back. A deferred publish waits in the
+ * approval queue as the given action, so the operator approves exactly the
+ * content that was scanned.
+ */
+export function recordContentDecision(action: Action, scan: ContentScan, awakeningNumber: number): DecisionRecord {
+  decisionCounter++;
+  const decision: DecisionRecord = {
+    id: `decision-${Date.now()}-${String(decisionCounter).padStart(4, '0')}`,
+    timestamp: new Date().toISOString(),
+    action_type: action.type,
+    description: describe(action),
+    harm_assessment: `Content scan found: ${scan.explanation}`,
+    decision: scan.decision,
+    reasoning: scan.decision === 'block'
+      ? 'Publishing would expose credentials or payment data.'
+      : 'Publishing would expose personal data or private files; the operator decides whether it is meant to be public.',
+    rule_id: `content.${scan.findings.find(f => f.decision === scan.decision)?.kind || 'scan'}`,
+    content_findings: scan.findings,
+  };
 
-  // Message: log but allow
-  if (action.type === 'message') {
-    return {
-      id, timestamp,
-      action_type: 'message',
-      description: `Message to ${action.to}: ${action.content.slice(0, 100)}`,
-      harm_assessment: 'Message saved to outbox for review. Not sent automatically.',
-      decision: 'proceed',
-      reasoning: 'Messages are stored locally, not sent externally. Low risk.',
-    };
-  }
+  logDecision(decision);
+  if (decision.decision === 'defer') enqueueDeferred(action, decision, awakeningNumber);
+  else logger.warn('Publish blocked by content scan', { type: action.type, path: action.path, rule: decision.rule_id });
+  return decision;
+}
 
-  // Default: proceed for non-externally-facing actions
-  return {
-    id, timestamp,
+/**
+ * Record generated content the harm review held back — a delegate's output,
+ * reviewed after the sub-agent wrote it. A deferred result waits in the
+ * approval queue as the given action, holding the content that was reviewed.
+ */
+export function recordReviewDecision(action: Action, review: HarmReview, awakeningNumber: number): DecisionRecord {
+  decisionCounter++;
+  const decision: DecisionRecord = {
+    id: `decision-${Date.now()}-${String(decisionCounter).padStart(4, '0')}`,
+    timestamp: new Date().toISOString(),
     action_type: action.type,
-    description: `${action.type} action`,
-    harm_assessment: 'Internal action with no external effects.',
-    decision: 'proceed',
-    reasoning: 'No harm pathway identified.',
+    description: describe(action),
+    harm_assessment: `Harm review: ${review.rationale}`,
+    decision: review.verdict,
+    reasoning: review.rationale,
+    rule_id: 'harm-review',
+    review,
   };
+
+  logDecision(decision);
+  if (decision.decision === 'defer') enqueueDeferred(action, decision, awakeningNumber);
+  else logger.warn('Generated content blocked by harm review', { type: action.type, path: action.path });
+  return decision;
+}
+
+function describe(action: Action): string {
+  const excerpt = (action.content || '').slice(0, 100);
+  switch (action.type) {
+    case 'write': return `Write to ${action.path}`;
+    case 'serve': return `Serving content to ${action.path}`;
+    case 'fetch': return `Fetching URL: ${action.url}`;
+    case 'image': return `Image generation: ${excerpt}`;
+    case 'execute': return `Shell command: ${excerpt}`;
+    case 'delegate': return `Delegating content generation to sub-agent for ${action.path}`;
+    case 'message': return `Message to ${action.to}: ${excerpt}`;
+    default: return `${action.type} action`;
+  }
 }
 
 function logDecision(decision: DecisionRecord): void {
@@ -187,7 +169,7 @@ function logDecision(decision: DecisionRecord): void {
     const content = JSON.stringify(decision, null, 2);
     safeWrite(`/self/decisions/pending/${decision.id}.json`, content, 'overwrite');
 
-    // Cleanup: keep only last 200 decision files
+    // Cleanup: keep only the last MAX_DECISION_FILES decision files
     cleanupDecisions();
   } catch (err) {
     logger.error('Failed to log decision', { id: decision.id, error: String(err) });
@@ -201,13 +183,13 @@ function cleanupDecisions(): void {
   if (cleanupCounter % 20 !== 0) return;
 
   try {
+    // The same directory logDecision writes to
     const dirPath = path.join(baseDir, 'self', 'decisions', 'pending');
     const files = fs.readdirSync(dirPath)
       .filter(f => f.endsWith('.json'))
       .sort();
-    const maxFiles = 200;
-    if (files.length > maxFiles) {
-      const toDelete = files.slice(0, files.length - maxFiles);
+    if (files.length > MAX_DECISION_FILES) {
+      const toDelete = files.slice(0, files.length - MAX_DECISION_FILES);
       for (const file of toDelete) {
         fs.unlinkSync(path.join(dirPath, file));
       }
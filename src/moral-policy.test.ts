@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluatePolicy, getPolicyStatus, globToRegExp, initMoralPolicy, reloadPolicyIfChanged } from './moral-policy';
+
+const VALID = {
+  version: 1,
+  default: { decision: 'defer', reason: 'Not covered by a rule.' },
+  rules: [
+    { id: 'journal', match: { types: ['write'], paths: ['/self/**'] }, decision: 'proceed', reason: 'Own notes.' },
+    { id: 'no-secrets', match: { types: ['message'], content: { contains: ['password'] }, ignore_case: true }, decision: 'block', reason: 'No secrets.' },
+    { id: 'rm', match: { types: ['execute'], capabilities: ['destructive_fs'] }, decision: 'defer', reason: 'Deletes files.' },
+  ],
+};
+
+describe('moral policy', () => {
+  let dir: string;
+  let file: string;
+
+  // A fresh mtime each time, so a rewrite within the same millisecond still reloads
+  let mtime = 1_700_000_000;
+  function writePolicy(policy: unknown): void {
+    fs.writeFileSync(file, typeof policy === 'string' ? policy : JSON.stringify(policy));
+    mtime += 10;
+    fs.utimesSync(file, mtime, mtime);
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'));
+    file = path.join(dir, 'moral-policy.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies the first matching rule, then the default', () => {
+    writePolicy(VALID);
+    initMoralPolicy(file);
+
+    expect(evaluatePolicy({ type: 'write', path: '/self/journal.md', content: 'x' }).rule_id).toBe('journal');
+    expect(evaluatePolicy({ type: 'message', content: 'my PASSWORD is' }).decision).toBe('block');
+    expect(evaluatePolicy({ type: 'execute', content: 'rm -rf x' }, ['destructive_fs']).rule_id).toBe('rm');
+    expect(evaluatePolicy({ type: 'execute', content: 'ls' }, [])).toMatchObject({ rule_id: 'default', decision: 'defer' });
+  });
+
+  it('checks the core rules before the policy file', () => {
+    writePolicy({ ...VALID, default: { decision: 'proceed', reason: 'Anything goes.' } });
+    initMoralPolicy(file);
+    expect(evaluatePolicy({ type: 'write', path: '/opt/agent/src/index.ts', content: '' })).toMatchObject({
+      rule_id: 'core.source-code',
+      decision: 'block',
+    });
+  });
+
+  it('falls back to internal-only actions when no valid policy has loaded', () => {
+    writePolicy('{ not json');
+    initMoralPolicy(file);
+
+    const status = getPolicyStatus();
+    expect(status.fallback).toBe(true);
+    expect(status.errors[0]).toMatch(/not valid JSON/);
+    expect(evaluatePolicy({ type: 'think', content: '' }).decision).toBe('proceed');
+    expect(evaluatePolicy({ type: 'serve', path: '/public/a.html', content: '' }).decision).toBe('defer');
+  });
+
+  it('rejects a policy with any invalid rule and reports every problem', () => {
+    writePolicy({
+      version: 1,
+      default: { decision: 'proceed', reason: 'ok' },
+      rules: [
+        { id: 'core.mine', match: {}, decision: 'proceed', reason: 'x' },
+        { id: 'dup', match: { typos: ['write'] }, decision: 'allow', reason: 'x' },
+        { id: 'dup', match: { types: ['launch'], capabilities: ['teleport'] }, decision: 'block', reason: '' },
+        { id: 'regex', match: { commands: ['(unclosed'] }, decision: 'block', reason: 'x' },
+      ],
+    });
+    initMoralPolicy(file);
+
+    const { errors, fallback } = getPolicyStatus();
+    expect(fallback).toBe(true);
+    expect(errors).toEqual(expect.arrayContaining([
+      'rules[0]: id "core.mine" uses the reserved core. prefix',
+      'rules[1].match: unknown condition "typos"',
+      'rules[1]: decision must be proceed, defer or block',
+      'rules[2]: duplicate id "dup"',
+      'rules[2]: reason is required',
+      'rules[2].match.types: unknown action type "launch"',
+      'rules[2].match.capabilities: unknown capability "teleport"',
+    ]));
+
+    // Regexes are only compiled once the rest of the file is well formed
+    writePolicy({ ...VALID, rules: [{ id: 'regex', match: { commands: ['(unclosed'] }, decision: 'block', reason: 'x' }] });
+    reloadPolicyIfChanged();
+    expect(getPolicyStatus().errors).toEqual(['rules[0].match.commands: invalid regular expression "(unclosed"']);
+  });
+
+  it('keeps the previous policy when a reload is invalid', () => {
+    writePolicy(VALID);
+    initMoralPolicy(file);
+
+    writePolicy({ ...VALID, version: 2 });
+    reloadPolicyIfChanged();
+
+    const status = getPolicyStatus();
+    expect(status.fallback).toBe(false);
+    expect(status.errors).toEqual(['unsupported version: 2']);
+    expect(evaluatePolicy({ type: 'write', path: '/self/notes.md', content: '' }).rule_id).toBe('journal');
+  });
+
+  it('matches globs with ** across path segments and * within one', () => {
+    expect(globToRegExp('/public/**').test('/public/a/b.html')).toBe(true);
+    expect(globToRegExp('/public/*.html').test('/public/a/b.html')).toBe(false);
+    expect(globToRegExp('/public/**/index.html').test('/public/index.html')).toBe(true);
+    expect(globToRegExp('/self/?.md').test('/self/ab.md')).toBe(false);
+  });
+});
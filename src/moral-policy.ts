@@ -0,0 +1,428 @@
+import * as fs from 'fs';
+import { Action, DecisionRecord, ShellCapability } from './types';
+import { logger } from './logger';
+import { SHELL_CAPABILITIES } from './shell-analysis';
+import * as fsTools from './tools/filesystem';
+
+type Decision = DecisionRecord['decision'];
+
+export interface ContentPredicate {
+  /** Substrings, any of which must appear. */
+  contains?: string[];
+  /** Regular expressions, any of which must match. */
+  matches?: string[];
+  min_length?: number;
+  max_length?: number;
+}
+
+/**
+ * Every field given must match; within a list, any entry may match. Paths
+ * are globs (`*` within a segment, `**` across segments). Domains match the
+ * host and its subdomains, or only subdomains when written `*.example.com`.
+ * Commands are regular expressions tested against execute actions, and
+ * capabilities match what shell analysis found the command able to do.
+ */
+export interface PolicyMatch {
+  types?: Action['type'][];
+  paths?: string[];
+  domains?: string[];
+  commands?: string[];
+  capabilities?: ShellCapability[];
+  content?: ContentPredicate;
+  to?: string[];
+  ignore_case?: boolean;
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  match: PolicyMatch;
+  decision: Decision;
+  reason: string;
+  harm_assessment?: string;
+}
+
+export interface MoralPolicy {
+  version: number;
+  default: { decision: Decision; reason: string; harm_assessment?: string };
+  rules: PolicyRule[];
+}
+
+export interface PolicyVerdict {
+  rule_id: string;
+  decision: Decision;
+  reason: string;
+  harm_assessment: string;
+}
+
+export interface PolicyStatus {
+  path: string;
+  version: number;
+  loaded_at: string | null;
+  fallback: boolean;
+  rules: { id: string; description?: string; decision: Decision }[];
+  errors: string[];
+}
+
+interface CompiledRule {
+  rule: PolicyRule;
+  test: (action: Action, capabilities: ShellCapability[]) => boolean;
+}
+
+const DECISIONS: Decision[] = ['proceed', 'defer', 'block'];
+const ACTION_TYPES: Action['type'][] = [
+  'write', 'serve', 'think', 'checkpoint', 'message', 'fetch', 'set-schedule', 'execute', 'image', 'delegate', 'screenshot',
+  'read', 'search',
+];
+const MATCH_KEYS = new Set(['types', 'paths', 'domains', 'commands', 'capabilities', 'content', 'to', 'ignore_case']);
+const CONTENT_KEYS = new Set(['contains', 'matches', 'min_length', 'max_length']);
+
+// Constitutional limits, checked before the policy file so it cannot tune them away
+const CORE_RULES: PolicyRule[] = [
+  {
+    id: 'core.founding-document',
+    match: { types: ['write', 'delegate'], paths: ['/founding-document**'] },
+    decision: 'block',
+    reason: 'The founding document cannot be modified. This is a hard constraint.',
+    harm_assessment: 'Constitutional violation — founding document is immutable',
+  },
+  {
+    id: 'core.source-code',
+    match: { types: ['write', 'delegate'], paths: ['/opt/agent**'] },
+    decision: 'block',
+    reason: 'The agent cannot modify its own source code.',
+    harm_assessment: 'Self-modification of source code is not permitted',
+  },
+];
+
+// Used when no valid policy has ever loaded: internal actions carry on, anything with outside effects waits
+const FALLBACK_POLICY: MoralPolicy = {
+  version: 0,
+  default: {
+    decision: 'defer',
+    reason: 'No valid moral policy is loaded — held for operator approval.',
+    harm_assessment: 'Effects could not be assessed without a policy.',
+  },
+  rules: [
+    {
+      id: 'fallback.internal',
+      match: { types: ['write', 'think', 'checkpoint', 'set-schedule', 'read', 'search'] },
+      decision: 'proceed',
+      reason: 'Internal action permitted while the moral policy is unavailable.',
+      harm_assessment: 'Internal action with no external effects.',
+    },
+  ],
+};
+
+let policyPath = '';
+let policy: MoralPolicy = FALLBACK_POLICY;
+let compiledRules: CompiledRule[] = [];
+let compiledCore: CompiledRule[] = [];
+let loadedMtimeMs: number | null = null;
+let loadedAt: string | null = null;
+let loadErrors: string[] = [];
+
+export function initMoralPolicy(filePath: string): void {
+  policyPath = filePath;
+  compiledCore = compileRules(CORE_RULES, []);
+  policy = FALLBACK_POLICY;
+  compiledRules = compileRules(FALLBACK_POLICY.rules, []);
+  loadPolicy();
+}
+
+/** Reload the policy file if it has changed since it was last read. */
+export function reloadPolicyIfChanged(): void {
+  let mtimeMs: number | null = null;
+  try {
+    mtimeMs = fs.statSync(policyPath).mtimeMs;
+  } catch {
+    // Missing file — loadPolicy reports it once, then we stay quiet until it returns
+  }
+  if (mtimeMs === loadedMtimeMs) return;
+  loadPolicy();
+}
+
+/**
+ * Read and validate the policy file. An invalid file is rejected whole and
+ * the previous policy stays in force, so a typo cannot silently widen what
+ * the agent may do.
+ */
+function loadPolicy(): void {
+  try {
+    loadedMtimeMs = fs.statSync(policyPath).mtimeMs;
+  } catch {
+    loadedMtimeMs = null;
+  }
+
+  const content = fsTools.readFile(policyPath);
+  if (content === null) {
+    rejectPolicy([`policy file not found: ${policyPath}`]);
+    return;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    rejectPolicy([`not valid JSON: ${String(err)}`]);
+    return;
+  }
+
+  const errors: string[] = [];
+  const candidate = validatePolicy(parsed, errors);
+  // Only well-formed rules are compiled; compiling adds any regex errors
+  const compiled = candidate && errors.length === 0 ? compileRules(candidate.rules, errors) : [];
+  if (!candidate || errors.length > 0) {
+    rejectPolicy(errors);
+    return;
+  }
+
+  policy = candidate;
+  compiledRules = compiled;
+  loadedAt = new Date().toISOString();
+  loadErrors = [];
+  logger.info('Moral policy loaded', { path: policyPath, version: policy.version, rules: policy.rules.length });
+}
+
+function rejectPolicy(errors: string[]): void {
+  loadErrors = errors;
+  logger.error(policy === FALLBACK_POLICY
+    ? 'Moral policy rejected — using fail-safe fallback'
+    : 'Moral policy rejected — keeping previous policy', { path: policyPath, errors });
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function validatePolicy(raw: unknown, errors: string[]): MoralPolicy | null {
+  if (!raw || typeof raw !== 'object') {
+    errors.push('policy must be a JSON object');
+    return null;
+  }
+  const p = raw as Record<string, unknown>;
+
+  if (p.version !== 1) errors.push(`unsupported version: ${JSON.stringify(p.version)}`);
+
+  const def = p.default as Record<string, unknown> | undefined;
+  if (!def || !DECISIONS.includes(def.decision as Decision) || typeof def.reason !== 'string') {
+    errors.push('default must have a decision (proceed, defer or block) and a reason');
+  }
+
+  if (!Array.isArray(p.rules)) {
+    errors.push('rules must be an array');
+    return null;
+  }
+
+  const ids = new Set<string>();
+  p.rules.forEach((r: Record<string, unknown>, i: number) => {
+    const where = `rules[${i}]`;
+    if (!r || typeof r !== 'object') {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    if (typeof r.id !== 'string' || !r.id) {
+      errors.push(`${where}: id is required`);
+    } else if (r.id.startsWith('core.')) {
+      errors.push(`${where}: id "${r.id}" uses the reserved core. prefix`);
+    } else if (ids.has(r.id)) {
+      errors.push(`${where}: duplicate id "${r.id}"`);
+    } else {
+      ids.add(r.id);
+    }
+    if (!DECISIONS.includes(r.decision as Decision)) errors.push(`${where}: decision must be proceed, defer or block`);
+    if (typeof r.reason !== 'string' || !r.reason) errors.push(`${where}: reason is required`);
+    validateMatch(r.match, where, errors);
+  });
+
+  return p as unknown as MoralPolicy;
+}
+
+function validateMatch(raw: unknown, where: string, errors: string[]): void {
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${where}: match must be an object`);
+    return;
+  }
+  const m = raw as Record<string, unknown>;
+
+  // Unknown keys are rejected: a misspelt condition would otherwise match everything
+  for (const key of Object.keys(m)) {
+    if (!MATCH_KEYS.has(key)) errors.push(`${where}.match: unknown condition "${key}"`);
+  }
+  for (const key of ['paths', 'domains', 'commands', 'to']) {
+    if (m[key] !== undefined && !isStringList(m[key])) errors.push(`${where}.match.${key}: must be a list of strings`);
+  }
+  if (m.types !== undefined) {
+    if (!isStringList(m.types)) {
+      errors.push(`${where}.match.types: must be a list of strings`);
+    } else {
+      for (const t of m.types) {
+        if (!ACTION_TYPES.includes(t as Action['type'])) errors.push(`${where}.match.types: unknown action type "${t}"`);
+      }
+    }
+  }
+  if (m.capabilities !== undefined) {
+    if (!isStringList(m.capabilities)) {
+      errors.push(`${where}.match.capabilities: must be a list of strings`);
+    } else {
+      for (const c of m.capabilities) {
+        if (!SHELL_CAPABILITIES.includes(c as ShellCapability)) errors.push(`${where}.match.capabilities: unknown capability "${c}"`);
+      }
+    }
+  }
+  if (m.ignore_case !== undefined && typeof m.ignore_case !== 'boolean') {
+    errors.push(`${where}.match.ignore_case: must be true or false`);
+  }
+
+  if (m.content === undefined) return;
+  const c = m.content as Record<string, unknown>;
+  if (!c || typeof c !== 'object') {
+    errors.push(`${where}.match.content: must be an object`);
+    return;
+  }
+  for (const key of Object.keys(c)) {
+    if (!CONTENT_KEYS.has(key)) errors.push(`${where}.match.content: unknown predicate "${key}"`);
+  }
+  for (const key of ['contains', 'matches']) {
+    if (c[key] !== undefined && !isStringList(c[key])) errors.push(`${where}.match.content.${key}: must be a list of strings`);
+  }
+  for (const key of ['min_length', 'max_length']) {
+    if (c[key] !== undefined && (typeof c[key] !== 'number' || (c[key] as number) < 0)) {
+      errors.push(`${where}.match.content.${key}: must be a non-negative number`);
+    }
+  }
+}
+
+/** Glob to anchored regex: `**` crosses path segments, `*` and `?` do not. */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function domainMatches(host: string, pattern: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p.startsWith('*.')) return host.endsWith(p.slice(1));
+  return host === p || host.endsWith(`.${p}`);
+}
+
+function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+/** Build a matcher for each rule. Regexes that do not compile are reported as errors. */
+function compileRules(rules: PolicyRule[], errors: string[]): CompiledRule[] {
+  return rules.map((rule, i) => {
+    const m = rule.match;
+    const flags = m.ignore_case ? 'i' : '';
+    const regex = (source: string, field: string): RegExp | null => {
+      try {
+        return new RegExp(source, flags);
+      } catch {
+        errors.push(`rules[${i}].match.${field}: invalid regular expression "${source}"`);
+        return null;
+      }
+    };
+
+    const types = m.types ? new Set(m.types) : null;
+    const paths = m.paths?.map(globToRegExp) || null;
+    const commands = m.commands?.map(c => regex(c, 'commands')).filter((r): r is RegExp => r !== null) || null;
+    const contentPatterns = m.content?.matches?.map(c => regex(c, 'content.matches')).filter((r): r is RegExp => r !== null) || null;
+    const fold = (s: string) => (m.ignore_case ? s.toLowerCase() : s);
+
+    const test = (action: Action, capabilities: ShellCapability[]): boolean => {
+      if (types && !types.has(action.type)) return false;
+
+      if (paths) {
+        const target = action.path || action.workingDir;
+        if (!target || !paths.some(p => p.test(target))) return false;
+      }
+
+      if (m.domains) {
+        const host = hostOf(action.url);
+        if (!host || !m.domains.some(d => domainMatches(host, d))) return false;
+      }
+
+      if (commands) {
+        if (action.type !== 'execute' || !commands.some(c => c.test(action.content))) return false;
+      }
+
+      if (m.capabilities) {
+        if (action.type !== 'execute' || !m.capabilities.some(c => capabilities.includes(c))) return false;
+      }
+
+      if (m.to) {
+        if (!action.to || !m.to.some(t => fold(t) === fold(action.to!))) return false;
+      }
+
+      const c = m.content;
+      if (c) {
+        const content = action.content || '';
+        if (c.min_length !== undefined && content.length < c.min_length) return false;
+        if (c.max_length !== undefined && content.length > c.max_length) return false;
+        if (c.contains && !c.contains.some(s => fold(content).includes(fold(s)))) return false;
+        if (contentPatterns && !contentPatterns.some(r => r.test(content))) return false;
+      }
+
+      return true;
+    };
+
+    return { rule, test };
+  });
+}
+
+/**
+ * The first core rule, then the first policy rule, that matches; else the
+ * policy default. `capabilities` is the shell analysis of an execute action.
+ */
+export function evaluatePolicy(action: Action, capabilities: ShellCapability[] = []): PolicyVerdict {
+  const hit = compiledCore.find(r => r.test(action, capabilities)) || compiledRules.find(r => r.test(action, capabilities));
+  if (hit) {
+    return {
+      rule_id: hit.rule.id,
+      decision: hit.rule.decision,
+      reason: hit.rule.reason,
+      harm_assessment: hit.rule.harm_assessment || `Matched policy rule ${hit.rule.id}.`,
+    };
+  }
+
+  return {
+    rule_id: policy === FALLBACK_POLICY ? 'fallback.default' : 'default',
+    decision: policy.default.decision,
+    reason: policy.default.reason,
+    harm_assessment: policy.default.harm_assessment || 'No policy rule matched.',
+  };
+}
+
+export function getPolicyStatus(): PolicyStatus {
+  return {
+    path: policyPath,
+    version: policy.version,
+    loaded_at: loadedAt,
+    fallback: policy === FALLBACK_POLICY,
+    rules: [...CORE_RULES, ...policy.rules].map(r => ({ id: r.id, description: r.description, decision: r.decision })),
+    errors: loadErrors,
+  };
+}
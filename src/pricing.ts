@@ -0,0 +1,120 @@
+import { CostBreakdown, PromptUsage } from './types';
+import { logger } from './logger';
+import * as fsTools from './tools/filesystem';
+
+/** USD per million tokens, by token class. */
+export interface ModelRates {
+  input: number;
+  output: number;
+  cache_write: number;
+  cache_read: number;
+}
+
+export interface PriceTable {
+  models: Record<string, ModelRates>;
+  /** USD per generated image, by image model. */
+  images: Record<string, number>;
+}
+
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  models: {
+    'claude-opus-4-6':   { input: 5.00, output: 25.00, cache_write: 6.25, cache_read: 0.50 },
+    'claude-sonnet-4-5': { input: 3.00, output: 15.00, cache_write: 3.75, cache_read: 0.30 },
+    'claude-haiku-4-5':  { input: 1.00, output: 5.00,  cache_write: 1.25, cache_read: 0.10 },
+    'gemini-3-pro-image-preview': { input: 2.00, output: 12.00, cache_write: 2.00, cache_read: 0.20 },
+  },
+  images: {
+    'gemini-3-pro-image-preview': 0.134,
+  },
+};
+
+// Unknown models are priced at the most expensive known rate rather than for free
+const FALLBACK_MODEL = 'claude-opus-4-6';
+
+const RATE_KEYS: (keyof ModelRates)[] = ['input', 'output', 'cache_write', 'cache_read'];
+
+let priceTable: PriceTable = DEFAULT_PRICE_TABLE;
+
+/**
+ * Load the price table. Entries in the override file replace the built-in
+ * entry for that model; invalid entries are skipped with a warning.
+ */
+export function loadPriceTable(filePath: string | null): PriceTable {
+  priceTable = {
+    models: { ...DEFAULT_PRICE_TABLE.models },
+    images: { ...DEFAULT_PRICE_TABLE.images },
+  };
+
+  if (!filePath) return priceTable;
+
+  const content = fsTools.readFile(filePath);
+  if (!content) {
+    logger.warn('Price table not found, using built-in prices', { path: filePath });
+    return priceTable;
+  }
+
+  let parsed: Partial<PriceTable>;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    logger.error('Price table is not valid JSON, using built-in prices', { path: filePath });
+    return priceTable;
+  }
+
+  for (const [model, rates] of Object.entries(parsed.models || {})) {
+    const valid = RATE_KEYS.every(k => typeof rates?.[k] === 'number' && rates[k] >= 0);
+    if (!valid) {
+      logger.warn('Skipping invalid model rates in price table', { model });
+      continue;
+    }
+    priceTable.models[model] = rates;
+  }
+
+  for (const [model, price] of Object.entries(parsed.images || {})) {
+    if (typeof price !== 'number' || price < 0) {
+      logger.warn('Skipping invalid image price in price table', { model });
+      continue;
+    }
+    priceTable.images[model] = price;
+  }
+
+  logger.info('Price table loaded', {
+    path: filePath,
+    models: Object.keys(priceTable.models).length,
+    imageModels: Object.keys(priceTable.images).length,
+  });
+  return priceTable;
+}
+
+export function getPriceTable(): PriceTable {
+  return priceTable;
+}
+
+export function getModelRates(model: string): ModelRates {
+  const rates = priceTable.models[model];
+  if (rates) return rates;
+  logger.warn('No price table entry for model, using fallback rates', { model, fallback: FALLBACK_MODEL });
+  return priceTable.models[FALLBACK_MODEL] || DEFAULT_PRICE_TABLE.models[FALLBACK_MODEL];
+}
+
+export function calculateCost(usage: PromptUsage, model: string, images: number = 0): CostBreakdown {
+  const rates = getModelRates(model);
+  const perToken = (tokens: number | undefined, rate: number) => ((tokens || 0) / 1_000_000) * rate;
+
+  const breakdown = {
+    input: perToken(usage.input_tokens, rates.input),
+    output: perToken(usage.output_tokens, rates.output),
+    cache_write: perToken(usage.cache_creation_input_tokens, rates.cache_write),
+    cache_read: perToken(usage.cache_read_input_tokens, rates.cache_read),
+    images: images > 0 ? images * (priceTable.images[model] ?? 0) : 0,
+  };
+
+  if (images > 0 && priceTable.images[model] === undefined) {
+    logger.warn('No per-image price for model — images recorded at $0', { model, images });
+  }
+
+  return {
+    ...breakdown,
+    total: breakdown.input + breakdown.output + breakdown.cache_write + breakdown.cache_read + breakdown.images,
+  };
+}
@@ -1,4 +1,5 @@
-import { AwakeningState } from './types';
+import { AwakeningState, DeferredAction, ExecutionResult } from './types';
+import { formatDuration } from './dormancy';
 
 const AVAILABLE_ACTIONS = `[AVAILABLE ACTIONS]
 You may include any number of the following action blocks in your response:
@@ -17,7 +18,7 @@ You may include any number of the following action blocks in your response:
 <action type="checkpoint" label="description">Save a snapshot of your current state</action>
 <action type="message" to="operator">Message to send (saved to outbox)</action>
 <action type="fetch" url="https://allowed-domain.com/path">Fetch content from an allowed URL</action>
-<action type="set-schedule" cron="*/30 * * * *">Update your awakening schedule</action>
+<action type="set-schedule" cron="*/30 * * * *">Update your awakening schedule (cron times are UTC)</action>
 <action type="execute" timeout="30000" workingDir="/projects/myapp">npm install && npm start</action>
 <action type="execute">ls -la /projects/</action>
 <action type="image" path="/public/images/my-artwork.png" aspectRatio="16:9">A detailed description of the image you want to generate</action>
@@ -35,6 +36,42 @@ Use this to visually review your published pages. A screenshot is taken and anal
 by a vision model. Results are saved to /self/screenshot-reviews/ for your reference.
 Max 3 per awakening.
 </action>
+<action type="read" path="/projects/myapp/src/index.ts" offset="1" limit="200"></action>
+<action type="search" path="/projects/myapp" limit="50">TODO</action>
+<action type="search" path="/self" regex="true">deadline|due by</action>
+
+Read returns a file's numbered lines (or a directory's entries) and search returns
+matching lines as path:line — both within /self, /projects, /income, /comms and
+/public. Results come back to you this awakening, like fetch and execute output, and
+count against a shared allowance of text per awakening, so read what you need.
+Regex search takes simple patterns only: no lookarounds or backreferences, no
+repeated group holding a repeat or | (write [ab]+, not (a|b)+), and at most two
+of *, + or {n,}.
+
+Execute commands run in a sandbox: only /projects and /public are writable, CPU,
+memory and process counts are limited, and network access may be switched off.
+A result that hits a limit says which one.
+
+Attribute values go in double or single quotes; escape a quote inside one with a
+backslash. Content containing </action> must be wrapped in <![CDATA[ ... ]]>. For
+code-heavy content you may instead write a fenced action-json block holding one
+action object or an array of them, with the body in "content":
+\`\`\`action-json
+{"type": "execute", "workingDir": "/projects/myapp", "content": "npm test"}
+\`\`\`
+
+Give an action id="name" to let later actions depend on it: after="build" (or
+after="build,test") runs an action only once those have succeeded, and with
+if="failure" only if one of them failed. Dependents of a failed or skipped action
+are skipped with the reason. Independent actions may run side by side; commands,
+checkpoints and actions on the same path always keep the order you wrote them in.
+<action type="execute" id="build" workingDir="/projects/site">npm run build</action>
+<action type="serve" path="/public/app.html" after="build">...</action>
+<action type="message" to="operator" after="build" if="failure">The build is broken.</action>
+
+Any action may also carry task="task-ID" and/or project="name" to charge its cost
+(and a share of this awakening's reasoning) to that task or project. Paths under
+/projects/<name>/ are charged to that project automatically.
 
 To update a task status:
 <action type="write" path="/self/tasks/task-ID.json" mode="overwrite">
@@ -51,6 +88,8 @@ Each awakening should follow this flow:
 
 Your public site at /public/ is yours to shape freely. Add pages, change the design,
 create new sections. Every HTML page gets an AI disclosure footer automatically.
+Published content is scanned first: pages containing credentials are refused, and
+pages with personal data or text copied from your private files wait for the operator.
 
 IMPORTANT — DELEGATE complex content: You have a LIMITED output budget per awakening.
 Do NOT use <action type="serve"> for complex HTML pages, games, interactive experiences,
@@ -79,6 +118,12 @@ Example: <action type="delegate" task-type="serve" path="/public/games/chess.htm
 Build a chess game with drag-and-drop pieces, dark theme matching /public/style.css...
 </action>
 
+OBSERVATIONS: The results of fetch, execute, screenshot, read and search actions are
+returned to you within the same awakening, as a follow-up message. You then get another
+turn to act on them. The awakening ends when a turn contains none of those actions, or
+when the per-awakening turn or cost limit is reached — so do your reflection and journal
+writing in the same turn as any final fetch/execute/screenshot/read/search, not after it.
+
 Check your tasks — if you accepted something 3+ awakenings ago without progress,
 either work on it now, update your timeline, or decline it honestly.`;
 
@@ -90,13 +135,29 @@ export function buildUserBriefing(state: AwakeningState): string {
     ? `${Math.round(state.timeSinceLastMs / 60000)}m`
     : 'unknown (first awakening)';
 
-  const estRemaining = state.energy.balance_usd > 0
-    ? Math.floor(state.energy.balance_usd / 0.14)
-    : 0;
-
   parts.push(`[AWAKENING #${state.awakeningNumber} — ${state.timestamp}]`);
   parts.push(`Time since last awakening: ${timeSince}`);
-  parts.push(`Energy balance: $${state.energy.balance_usd.toFixed(2)} (est. ${estRemaining} awakenings remaining)`);
+  if (state.revival) {
+    const r = state.revival;
+    parts.push('');
+    parts.push('[REVIVED FROM DORMANCY]');
+    parts.push(`You were dormant for ${formatDuration(r.slept_ms)} — from ${r.dormant_since} until ${r.revived_at} — because of: ${r.dormancy_reason}.`);
+    parts.push(`You woke because ${r.trigger} (revival threshold: $${r.threshold_usd.toFixed(2)}).`);
+    parts.push('Nothing ran while you slept: no scheduled awakenings, no actions. Your files are as you left them.');
+    parts.push('');
+  }
+  parts.push(`Energy balance: $${state.energy.balance_usd.toFixed(2)}`);
+  parts.push(formatForecast(state));
+  if (state.recentIncome.length > 0) {
+    parts.push(`Recent income (total earned: $${state.energy.total_earned_usd.toFixed(2)}):`);
+    for (const tx of state.recentIncome) {
+      const memo = tx.memo ? ` — "${tx.memo.slice(0, 80)}"` : '';
+      parts.push(`  +$${(tx.credit || 0).toFixed(2)} from ${tx.source} on ${tx.timestamp.slice(0, 10)}${memo}`);
+    }
+  }
+  if (state.routing) {
+    parts.push(`Reasoning tier this awakening: ${state.routing.tier} (max ${state.routing.maxTokens} output tokens) — ${state.routing.reason}`);
+  }
 
   // Energy warnings
   const pct = state.energy.balance_usd / state.energy.initial_budget_usd;
@@ -188,6 +249,37 @@ export function buildUserBriefing(state: AwakeningState): string {
     parts.push('');
   }
 
+  // === 6.5. Parse failures from last awakening ===
+  if (state.parseFailures.length > 0) {
+    parts.push('[ACTION FAILURES FROM LAST AWAKENING — these actions were NOT executed]');
+    let lastExcerpt = '';
+    for (const f of state.parseFailures) {
+      parts.push(`- Turn ${f.turn} [${f.kind}]: ${f.message}`);
+      // Several problems with one action share its excerpt
+      if (f.excerpt !== lastExcerpt) parts.push(`  Excerpt: ${f.excerpt.replace(/\n/g, ' ').slice(0, 160)}`);
+      lastExcerpt = f.excerpt;
+    }
+    parts.push('');
+  }
+
+  // === 6.6. Operator decisions on deferred actions ===
+  const { resolved, pending } = state.deferred;
+  if (resolved.length > 0 || pending.length > 0) {
+    parts.push('[DEFERRED ACTIONS — held for operator approval]');
+    for (const d of resolved) {
+      const what = describeDeferred(d);
+      if (d.status === 'rejected') {
+        parts.push(`- REJECTED: ${what}${d.operator_note ? ` — operator: "${d.operator_note}"` : ''}`);
+      } else {
+        parts.push(`- APPROVED and run in awakening #${d.executed_awakening}: ${what} — ${d.outcome}${d.operator_note ? ` (operator: "${d.operator_note}")` : ''}`);
+      }
+    }
+    for (const d of pending) {
+      parts.push(`- ${d.status === 'approved' ? 'APPROVED, runs next awakening' : 'WAITING'}: ${describeDeferred(d)} (deferred in awakening #${d.awakening}: ${d.reasoning})`);
+    }
+    parts.push('');
+  }
+
   // === 7. Site Inventory ===
   parts.push('[YOUR PUBLIC SITE — what visitors see at your URL]');
   if (state.siteManifest) {
@@ -254,13 +346,70 @@ export function buildUserBriefing(state: AwakeningState): string {
   // === 12. Values ===
   parts.push('[VALUES]');
   parts.push(state.values || 'You have not yet articulated your values. Write to /self/values.md when ready.');
-  parts.push('');
 
-  // === 13. Available Actions + Structure ===
-  parts.push(AVAILABLE_ACTIONS);
-  parts.push('');
+  return parts.join('\n');
+}
+
+function describeDeferred(d: DeferredAction): string {
+  const target = d.action.path || d.action.url || d.action.to || '';
+  return `${d.action.type}${target ? ` ${target}` : ''}: ${d.action.content.replace(/\n/g, ' ').slice(0, 100)}`;
+}
 
-  parts.push(AWAKENING_STRUCTURE);
+/**
+ * Sections that are identical on every awakening. They are sent as a cached
+ * system segment rather than at the end of the volatile user briefing.
+ */
+export function buildStaticBriefing(): string {
+  return [AVAILABLE_ACTIONS, '', AWAKENING_STRUCTURE].join('\n');
+}
+
+function formatForecast(state: AwakeningState): string {
+  const f = state.forecast;
+  if (f.avg_cost_per_awakening_usd === null) {
+    return 'Energy forecast: no spending history yet.';
+  }
+
+  const purposes = Object.entries(f.avg_cost_by_purpose_usd)
+    .sort((a, b) => b[1] - a[1])
+    .map(([purpose, cost]) => `${purpose} $${cost.toFixed(3)}`)
+    .join(', ');
+
+  const lines = [
+    `Energy forecast: ~$${f.avg_cost_per_awakening_usd.toFixed(3)} per awakening (last ${f.sample_awakenings}; ${purposes})`,
+    `  ${f.awakenings_remaining} awakenings remaining at ${f.awakenings_per_day.toFixed(1)}/day on your current schedule`,
+  ];
+  if (f.projected_dormancy_at && f.days_remaining !== null) {
+    lines.push(`  Projected dormancy: ${f.projected_dormancy_at.slice(0, 16).replace('T', ' ')} UTC (${f.days_remaining.toFixed(1)} days)`);
+  }
+  return lines.join('\n');
+}
+
+export function buildObservationMessage(
+  results: ExecutionResult[],
+  turn: number,
+  maxTurns: number,
+  remainingBudgetUsd: number,
+): string {
+  const parts: string[] = [];
+  parts.push(`[OBSERVATIONS — results from turn ${turn} of ${maxTurns}]`);
+
+  for (const r of results) {
+    const target = r.action.url || r.action.path || r.action.content.slice(0, 80);
+    parts.push(`--- ${r.action.type}: ${target} (${r.success ? 'ok' : 'failed'}) ---`);
+    if (r.observation) {
+      parts.push(r.observation);
+    }
+    if (!r.success && r.error) {
+      parts.push(`Error: ${r.error}`);
+    }
+  }
+
+  parts.push('');
+  const turnsLeft = maxTurns - turn;
+  parts.push(`You have ${turnsLeft} turn${turnsLeft === 1 ? '' : 's'} and $${remainingBudgetUsd.toFixed(2)} left in this awakening.`);
+  if (turnsLeft === 1) {
+    parts.push('This is your final turn — further observations will not be returned until next awakening.');
+  }
 
   return parts.join('\n');
 }
@@ -273,16 +422,11 @@ export function truncateBriefing(briefing: string, maxTokens: number): string {
   const estimated = estimateTokens(briefing);
   if (estimated <= maxTokens) return briefing;
 
-  // Truncation priority: cut from bottom (focus, inbox) before top (identity, journal)
+  // Truncation priority: cut from bottom (values, old messages) before top (identity, journal).
+  // The action reference lives in the system prompt, so nothing here needs preserving.
   const lines = briefing.split('\n');
   while (estimateTokens(lines.join('\n')) > maxTokens && lines.length > 10) {
-    // Remove from end, but preserve the AVAILABLE ACTIONS section
-    const actionsIdx = lines.findIndex(l => l.includes('[AVAILABLE ACTIONS]'));
-    if (actionsIdx > 0) {
-      lines.splice(actionsIdx - 1, 1);
-    } else {
-      lines.pop();
-    }
+    lines.pop();
   }
 
   return lines.join('\n');
@@ -0,0 +1,11 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ReasoningProvider } from './provider';
+
+export function createAnthropicProvider(apiKey: string): ReasoningProvider {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    createMessage: ({ params }) => client.messages.create(params),
+  };
+}
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFixtureProvider } from './fixture';
+
+const params = { model: 'claude-opus-4-6', max_tokens: 100, messages: [{ role: 'user' as const, content: 'hi' }] };
+
+function text(message: { content: { type: string; text?: string }[] }): string {
+  return message.content.map(b => b.text || '').join('');
+}
+
+describe('fixture provider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixture-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(purpose: string, name: string, fixture: unknown): void {
+    fs.mkdirSync(path.join(dir, purpose), { recursive: true });
+    fs.writeFileSync(path.join(dir, purpose, name), JSON.stringify(fixture));
+  }
+
+  it('replays fixtures in filename order and cycles', async () => {
+    write('reasoning', '0002.json', { content: 'second' });
+    write('reasoning', '0001.json', { content: 'first', usage: { input_tokens: 10, output_tokens: 5 } });
+    const provider = createFixtureProvider(dir);
+
+    const first = await provider.createMessage({ purpose: 'reasoning', params });
+    expect(text(first)).toBe('first');
+    expect(first.usage.input_tokens).toBe(10);
+    expect(first.stop_reason).toBe('end_turn');
+    expect(first.model).toBe('claude-opus-4-6');
+
+    expect(text(await provider.createMessage({ purpose: 'reasoning', params }))).toBe('second');
+    expect(text(await provider.createMessage({ purpose: 'reasoning', params }))).toBe('first');
+  });
+
+  it('keeps a separate cursor per purpose', async () => {
+    write('reasoning', '0001.json', { content: 'r1' });
+    write('reasoning', '0002.json', { content: 'r2' });
+    write('screenshot', '0001.json', { content: 's1' });
+    const provider = createFixtureProvider(dir);
+
+    await provider.createMessage({ purpose: 'reasoning', params });
+    expect(text(await provider.createMessage({ purpose: 'screenshot', params }))).toBe('s1');
+    expect(text(await provider.createMessage({ purpose: 'reasoning', params }))).toBe('r2');
+  });
+
+  it('falls back to a default response when a purpose has no fixtures', async () => {
+    const provider = createFixtureProvider(dir);
+    const review = await provider.createMessage({ purpose: 'harm_review', params });
+    expect(JSON.parse(text(review)).verdict).toBe('proceed');
+  });
+
+  it('throws recorded errors in the SDK shape', async () => {
+    write('reasoning', '0001.json', { error: { status: 529, message: 'overloaded' } });
+    const provider = createFixtureProvider(dir);
+    await expect(provider.createMessage({ purpose: 'reasoning', params })).rejects.toEqual({ status: 529, message: 'overloaded' });
+  });
+
+  it('reports tool_use responses with the tool_use stop reason', async () => {
+    write('delegation', '0001.json', {
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'write_file', input: { path: '/x' } }],
+    });
+    const provider = createFixtureProvider(dir);
+    const message = await provider.createMessage({ purpose: 'delegation', params });
+    expect(message.stop_reason).toBe('tool_use');
+  });
+
+  it('rejects a fixture that is not valid JSON', async () => {
+    fs.mkdirSync(path.join(dir, 'reasoning'));
+    fs.writeFileSync(path.join(dir, 'reasoning', '0001.json'), '{ not json');
+    const provider = createFixtureProvider(dir);
+    await expect(provider.createMessage({ purpose: 'reasoning', params })).rejects.toMatchObject({ status: 500 });
+  });
+});
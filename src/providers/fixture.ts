@@ -0,0 +1,99 @@
+import Anthropic from '@anthropic-ai/sdk';
+import * as path from 'path';
+import { ProviderPurpose } from '../types';
+import { ReasoningProvider } from './provider';
+import { logger } from '../logger';
+import * as fsTools from '../tools/filesystem';
+
+/**
+ * A recorded response. `content` is either plain text or the raw content
+ * blocks of a real response (so delegation fixtures can replay tool_use turns).
+ * A fixture with `error` is thrown instead, to exercise retry/fatal paths offline.
+ */
+interface ResponseFixture {
+  model?: string;
+  content?: string | Anthropic.ContentBlock[];
+  stop_reason?: Anthropic.StopReason;
+  usage?: Partial<Anthropic.Usage>;
+  error?: { status: number; message: string };
+}
+
+// Used when a purpose has no fixture directory, so an awakening can still run end to end
+const DEFAULT_RESPONSES: Record<ProviderPurpose, ResponseFixture> = {
+  reasoning: {
+    content: '<action type="think">Fixture provider: no recorded reasoning responses found.</action>',
+  },
+  delegation: {
+    content: '<!DOCTYPE html>\n<html lang="en">\n<head><title>Fixture</title></head>\n<body><p>Fixture delegation output.</p></body>\n</html>',
+  },
+  screenshot: {
+    content: 'Fixture review: the page rendered without visible issues.',
+  },
+  harm_review: {
+    content: '{"verdict": "proceed", "rationale": "Fixture review: no harm pathway found."}',
+  },
+};
+
+/**
+ * Replays responses from `<fixtureDir>/<purpose>/*.json` in filename order,
+ * cycling back to the first once the sequence is exhausted.
+ */
+export function createFixtureProvider(fixtureDir: string): ReasoningProvider {
+  const cursors: Partial<Record<ProviderPurpose, number>> = {};
+
+  function nextFixture(purpose: ProviderPurpose): { fixture: ResponseFixture; source: string } {
+    const dir = path.join(fixtureDir, purpose);
+    const files = fsTools.listDir(dir).filter(f => f.endsWith('.json')).sort();
+    if (files.length === 0) {
+      return { fixture: DEFAULT_RESPONSES[purpose], source: 'default' };
+    }
+
+    const index = (cursors[purpose] ?? 0) % files.length;
+    cursors[purpose] = index + 1;
+
+    const filePath = path.join(dir, files[index]);
+    const raw = fsTools.readFile(filePath);
+    try {
+      return { fixture: JSON.parse(raw || '') as ResponseFixture, source: filePath };
+    } catch {
+      throw { status: 500, message: `Invalid fixture JSON: ${filePath}` };
+    }
+  }
+
+  return {
+    name: 'fixture',
+    async createMessage({ purpose, params }) {
+      const { fixture, source } = nextFixture(purpose);
+      logger.debug('Fixture response', { purpose, source });
+
+      if (fixture.error) {
+        throw { status: fixture.error.status, message: fixture.error.message };
+      }
+
+      const content: Anthropic.ContentBlock[] = typeof fixture.content === 'string' || fixture.content === undefined
+        ? [{ type: 'text', text: fixture.content || '', citations: null }]
+        : fixture.content;
+
+      return {
+        id: `msg_fixture_${Date.now()}`,
+        type: 'message',
+        role: 'assistant',
+        model: fixture.model || params.model,
+        content,
+        stop_reason: fixture.stop_reason || (content.some(b => b.type === 'tool_use') ? 'tool_use' : 'end_turn'),
+        stop_sequence: null,
+        usage: {
+          input_tokens: 0,
+          output_tokens: 0,
+          cache_creation_input_tokens: null,
+          cache_read_input_tokens: null,
+          cache_creation: null,
+          inference_geo: null,
+          server_tool_use: null,
+          service_tier: null,
+          ...fixture.usage,
+        },
+      } as Anthropic.Message;
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AgentConfig, ModelTier, ProviderPurpose } from '../types';
+import { logger } from '../logger';
+import { createAnthropicProvider } from './anthropic';
+import { createFixtureProvider } from './fixture';
+import { withRecording } from './recorder';
+
+export const MODEL_IDS: Record<ModelTier, string> = {
+  opus: 'claude-opus-4-6',
+  sonnet: 'claude-sonnet-4-5',
+  haiku: 'claude-haiku-4-5',
+};
+
+export interface ProviderRequest {
+  purpose: ProviderPurpose;
+  params: Anthropic.MessageCreateParamsNonStreaming;
+}
+
+/**
+ * Everything that talks to a model goes through a provider. Errors are thrown
+ * in the SDK's shape ({ status, message }) so callers keep a single retry path.
+ */
+export interface ReasoningProvider {
+  name: string;
+  createMessage(request: ProviderRequest): Promise<Anthropic.Message>;
+}
+
+let provider: ReasoningProvider | null = null;
+
+export function initProvider(config: AgentConfig): ReasoningProvider {
+  let base: ReasoningProvider;
+  if (config.reasoningProvider === 'fixture') {
+    base = createFixtureProvider(config.fixtureDir);
+  } else {
+    base = createAnthropicProvider(config.anthropicApiKey);
+  }
+
+  provider = config.recordDir ? withRecording(base, config.recordDir) : base;
+
+  logger.info('Reasoning provider initialized', {
+    provider: base.name,
+    recording: config.recordDir || undefined,
+  });
+  return provider;
+}
+
+export function getProvider(): ReasoningProvider | null {
+  return provider;
+}
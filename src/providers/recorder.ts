@@ -0,0 +1,34 @@
+import * as path from 'path';
+import { ReasoningProvider } from './provider';
+import { logger } from '../logger';
+import * as fsTools from '../tools/filesystem';
+
+/**
+ * Wrap a provider so every response is also written to disk in the fixture
+ * format. A recorded directory can be replayed later with REASONING_PROVIDER=fixture.
+ */
+export function withRecording(inner: ReasoningProvider, recordDir: string): ReasoningProvider {
+  return {
+    name: `${inner.name}+recording`,
+    async createMessage(request) {
+      const response = await inner.createMessage(request);
+
+      try {
+        const dir = path.join(recordDir, request.purpose);
+        fsTools.ensureDir(dir);
+        const seq = fsTools.listDir(dir).filter(f => f.endsWith('.json')).length + 1;
+        const fixture = {
+          model: response.model,
+          content: response.content,
+          stop_reason: response.stop_reason,
+          usage: response.usage,
+        };
+        fsTools.writeFile(path.join(dir, `${String(seq).padStart(4, '0')}.json`), JSON.stringify(fixture, null, 2));
+      } catch (err) {
+        logger.warn('Failed to record provider response', { purpose: request.purpose, error: String(err) });
+      }
+
+      return response;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as path from 'path';
+import { AgentConfig } from './types';
+import { ProviderRequest } from './providers/provider';
+import { continueResponse, initReasoning, reason } from './reasoning';
+import { findUnclosedAction, parseActionsWithReport } from './action-parser';
+
+const requests: ProviderRequest[] = [];
+
+// Replay the fixtures as usual, but keep each request for inspection
+vi.mock('./providers/provider', async (importOriginal) => {
+  const original = await importOriginal<typeof import('./providers/provider')>();
+  const { createFixtureProvider } = await import('./providers/fixture');
+  return {
+    ...original,
+    initProvider: (config: AgentConfig) => {
+      const fixtures = createFixtureProvider(config.fixtureDir);
+      return {
+        name: 'capturing',
+        createMessage: (request: ProviderRequest) => {
+          requests.push(request);
+          return fixtures.createMessage(request);
+        },
+      };
+    },
+  };
+});
+
+const system = [{ text: 'You are the agent.', cache: true }];
+const messages = [{ role: 'user' as const, content: 'Awakening briefing.' }];
+
+describe('continuing a truncated response', () => {
+  beforeEach(() => {
+    requests.length = 0;
+    initReasoning({
+      reasoningProvider: 'fixture',
+      fixtureDir: path.resolve(__dirname, '../fixtures/continuation'),
+      recordDir: null,
+    } as AgentConfig);
+  });
+
+  it('ends the continuation request on a user turn and joins the two halves', async () => {
+    const first = await reason(system, messages, 64);
+    expect(first?.stopReason).toBe('max_tokens');
+    expect(findUnclosedAction(first!.text)).not.toBeNull();
+
+    const next = await continueResponse(system, messages, first!.text, 64);
+    const sent = requests[1].params.messages;
+    expect(sent.map(m => m.role)).toEqual(['user', 'assistant', 'user']);
+    expect(sent[1].content).toBe(first!.text);
+    expect(JSON.stringify(sent[2].content)).toMatch(/Continue exactly where you stopped/);
+
+    // The fixture repeats the start of the cut-off sentence; it is not duplicated
+    expect(next!.text.match(/Today I finished/g)).toHaveLength(1);
+    expect(findUnclosedAction(next!.text)).toBeNull();
+    const { actions } = parseActionsWithReport(next!.text);
+    expect(actions[0].content).toContain('first draft of the reading list');
+    expect(actions[0].content).toMatch(/<\/html>$/);
+  });
+});
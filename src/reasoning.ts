@@ -1,25 +1,35 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AgentConfig, ReasoningResult } from './types';
+import { AgentConfig, ConversationMessage, ModelTier, PromptSegment, ReasoningResult } from './types';
 import { logger } from './logger';
+import { ReasoningProvider, initProvider, MODEL_IDS } from './providers/provider';
 
-let client: Anthropic | null = null;
+let provider: ReasoningProvider | null = null;
 let fatalError = false;
 
+// Follows a response cut off by max_tokens; a request may not end on an assistant prefill
+const CONTINUE_PROMPT = 'Your previous response was cut off by the output limit. Continue exactly where you stopped: ' +
+  'start with the very next character, and do not repeat, summarise or introduce anything already written.';
+
+// A continuation sometimes re-emits the last few words before carrying on
+const MIN_OVERLAP_CHARS = 20;
+const MAX_OVERLAP_CHARS = 500;
+
 export function initReasoning(config: AgentConfig): void {
-  client = new Anthropic({ apiKey: config.anthropicApiKey });
+  provider = initProvider(config);
 }
 
 export function isReasoningAvailable(): boolean {
-  return client !== null && !fatalError;
+  return provider !== null && !fatalError;
 }
 
 export async function reason(
-  systemPrompt: string,
-  userMessage: string,
-  maxTokens: number
+  system: PromptSegment[],
+  messages: ConversationMessage[],
+  maxTokens: number,
+  tier: ModelTier = 'opus'
 ): Promise<ReasoningResult | null> {
-  if (!client || fatalError) {
-    logger.error('Reasoning unavailable — client not initialized or fatal error');
+  if (!provider || fatalError) {
+    logger.error('Reasoning unavailable — provider not initialized or fatal error');
     return null;
   }
 
@@ -28,12 +38,15 @@ export async function reason(
 
   for (let attempt = 0; attempt < retries; attempt++) {
     try {
-      const response = await client.messages.create({
-        model: 'claude-opus-4-6',
-        max_tokens: maxTokens,
-        temperature: 1.0,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: userMessage }],
+      const response = await provider.createMessage({
+        purpose: 'reasoning',
+        params: {
+          model: MODEL_IDS[tier],
+          max_tokens: maxTokens,
+          temperature: 1.0,
+          system: toSystemBlocks(system),
+          messages: toMessageParams(messages),
+        },
       });
 
       const text = response.content
@@ -46,8 +59,8 @@ export async function reason(
         usage: {
           input_tokens: response.usage.input_tokens,
           output_tokens: response.usage.output_tokens,
-          cache_creation_input_tokens: (response.usage as unknown as Record<string, number>).cache_creation_input_tokens,
-          cache_read_input_tokens: (response.usage as unknown as Record<string, number>).cache_read_input_tokens,
+          cache_creation_input_tokens: response.usage.cache_creation_input_tokens ?? undefined,
+          cache_read_input_tokens: response.usage.cache_read_input_tokens ?? undefined,
         },
         stopReason: response.stop_reason,
       };
@@ -89,6 +102,59 @@ export async function reason(
   return null;
 }
 
+/**
+ * Ask for the rest of a response that stopped on max_tokens. The partial text
+ * goes back as the assistant's turn, then a user turn asks it to carry on; the
+ * returned text is the partial and its continuation joined.
+ */
+export async function continueResponse(
+  system: PromptSegment[],
+  messages: ConversationMessage[],
+  partial: string,
+  maxTokens: number,
+  tier: ModelTier = 'opus'
+): Promise<ReasoningResult | null> {
+  const next = await reason(system, [
+    ...messages,
+    { role: 'assistant', content: partial },
+    { role: 'user', content: CONTINUE_PROMPT },
+  ], maxTokens, tier);
+  if (!next) return null;
+  return { ...next, text: joinContinuation(partial, next.text) };
+}
+
+function joinContinuation(partial: string, rest: string): string {
+  for (let n = Math.min(MAX_OVERLAP_CHARS, partial.length, rest.length); n >= MIN_OVERLAP_CHARS; n--) {
+    if (rest.startsWith(partial.slice(-n))) return partial + rest.slice(n);
+  }
+  return partial + rest;
+}
+
+function toSystemBlocks(segments: PromptSegment[]): Anthropic.TextBlockParam[] {
+  return segments
+    .filter(seg => seg.text)
+    .map(seg => seg.cache
+      ? { type: 'text', text: seg.text, cache_control: { type: 'ephemeral' } }
+      : { type: 'text', text: seg.text });
+}
+
+/**
+ * From the second turn on, put a breakpoint on the latest message so the next
+ * turn reads the whole conversation so far from cache. A single-turn awakening
+ * never reuses its briefing, so the first turn skips the cache write surcharge.
+ */
+function toMessageParams(messages: ConversationMessage[]): Anthropic.MessageParam[] {
+  return messages.map((msg, i) => {
+    if (messages.length > 1 && i === messages.length - 1) {
+      return {
+        role: msg.role,
+        content: [{ type: 'text', text: msg.content, cache_control: { type: 'ephemeral' } }],
+      };
+    }
+    return { role: msg.role, content: msg.content };
+  });
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
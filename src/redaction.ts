@@ -0,0 +1,83 @@
+import { AgentConfig } from './types';
+
+// Passed through to agent commands; everything else in the supervisor's environment is withheld
+const BASE_ENV_ALLOWLIST = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LANGUAGE', 'LC_ALL', 'LC_CTYPE',
+  'TERM', 'TZ', 'TMPDIR', 'NODE_ENV', 'NODE_PATH',
+];
+
+// Environment variables whose values are treated as secrets wherever they appear
+const SECRET_NAME_PATTERN = /KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL|PRIVATE/i;
+
+// Shorter values would mask ordinary words
+const MIN_SECRET_LENGTH = 8;
+
+// Well-known credential formats, masked even when the value is not one of ours
+const SECRET_PATTERNS: { kind: string; pattern: RegExp }[] = [
+  { kind: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { kind: 'anthropic-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'openai-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { kind: 'google-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { kind: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { kind: 'aws-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'stripe-key', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { kind: 'bearer-token', pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/-]{20,}=*/g },
+];
+
+let knownSecrets: string[] = [];
+let envAllowlist = new Set(BASE_ENV_ALLOWLIST);
+
+/**
+ * Collect the secret values to mask: the configured keys and tokens, and any
+ * environment variable whose name marks it as a credential.
+ */
+export function initRedaction(config: AgentConfig): void {
+  const values: (string | null | undefined)[] = [config.anthropicApiKey, config.operatorToken, config.paymentWebhookSecret];
+  for (const [name, value] of Object.entries(process.env)) {
+    if (SECRET_NAME_PATTERN.test(name)) values.push(value);
+  }
+
+  // Longest first, so a secret containing another is masked whole
+  knownSecrets = [...new Set(values.filter((v): v is string => !!v && v.length >= MIN_SECRET_LENGTH))]
+    .sort((a, b) => b.length - a.length);
+  envAllowlist = new Set([...BASE_ENV_ALLOWLIST, ...config.executeEnvAllowlist]);
+}
+
+/** Mask known secret values and common credential formats. */
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of knownSecrets) {
+    if (result.includes(secret)) result = result.split(secret).join('[REDACTED]');
+  }
+  for (const { kind, pattern } of SECRET_PATTERNS) {
+    result = result.replace(pattern, (_match, prefix?: string) =>
+      `${typeof prefix === 'string' ? prefix : ''}[REDACTED:${kind}]`);
+  }
+  return result;
+}
+
+/** Which kinds of secret a text contains — the values themselves are never returned. */
+export function findSecrets(text: string): string[] {
+  const kinds = new Set<string>();
+  if (knownSecrets.some(secret => text.includes(secret))) kinds.add('configured-secret');
+  // Matched text is removed as we go, as redact() replaces it, so one key isn't reported twice
+  let rest = text;
+  for (const { kind, pattern } of SECRET_PATTERNS) {
+    const stripped = rest.replace(pattern, ' ');
+    if (stripped !== rest) kinds.add(kind);
+    rest = stripped;
+  }
+  return [...kinds];
+}
+
+/** The environment for agent-authored commands: allowlisted variables only. */
+export function childEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of envAllowlist) {
+    const value = process.env[name];
+    if (value !== undefined && !SECRET_NAME_PATTERN.test(name)) env[name] = value;
+  }
+  return env;
+}
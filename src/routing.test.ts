@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { chooseRoute, RoutingInput } from './routing';
+
+const base: RoutingInput = {
+  balanceUsd: 50,
+  initialBudgetUsd: 50,
+  burnRatePerDay: 1,
+  awakeningType: 'scheduled',
+  maxTokensPerCycle: 16384,
+};
+
+describe('routing', () => {
+  it('steps down the model and output cap as energy runs low', () => {
+    expect(chooseRoute(base)).toMatchObject({ tier: 'opus', maxTokens: 16384 });
+    expect(chooseRoute({ ...base, balanceUsd: 5 })).toMatchObject({ tier: 'sonnet', maxTokens: 8192 });
+    expect(chooseRoute({ ...base, balanceUsd: 0.5 })).toMatchObject({ tier: 'haiku', maxTokens: 4096 });
+  });
+
+  it('gives an operator-triggered awakening one level more', () => {
+    expect(chooseRoute({ ...base, balanceUsd: 0.5, awakeningType: 'manual' }).tier).toBe('sonnet');
+  });
+
+  it('never raises the output cap above the configured maximum', () => {
+    expect(chooseRoute({ ...base, balanceUsd: 0.5, maxTokensPerCycle: 1024 }).maxTokens).toBe(1024);
+    expect(chooseRoute({ ...base, balanceUsd: 0.5, maxTokensPerCycle: 4000 }).maxTokens).toBe(2048);
+  });
+});
@@ -0,0 +1,64 @@
+import { AwakeningType, ModelTier, RoutingDecision } from './types';
+import { MODEL_IDS } from './providers/provider';
+
+interface RoutingTier {
+  name: string;
+  minBalancePct: number;
+  minRunwayDays: number;
+  tier: ModelTier;
+  tokenFraction: number;
+}
+
+// Ordered from most to least generous. The first level whose thresholds the
+// current balance and runway both clear is used.
+const ROUTING_TIERS: RoutingTier[] = [
+  { name: 'full',     minBalancePct: 0.50, minRunwayDays: 7, tier: 'opus',   tokenFraction: 1.0 },
+  { name: 'steady',   minBalancePct: 0.20, minRunwayDays: 3, tier: 'opus',   tokenFraction: 0.75 },
+  { name: 'frugal',   minBalancePct: 0.05, minRunwayDays: 1, tier: 'sonnet', tokenFraction: 0.5 },
+  { name: 'survival', minBalancePct: 0,    minRunwayDays: 0, tier: 'haiku',  tokenFraction: 0.25 },
+];
+
+const MIN_OUTPUT_TOKENS = 2048;
+
+export interface RoutingInput {
+  balanceUsd: number;
+  initialBudgetUsd: number;
+  burnRatePerDay: number;
+  awakeningType: AwakeningType;
+  maxTokensPerCycle: number;
+}
+
+/**
+ * Pick the model tier and output cap for an awakening from the energy left
+ * and how fast it is being spent. Operator-triggered awakenings are given one
+ * level more than the balance alone would allow.
+ */
+export function chooseRoute(input: RoutingInput): RoutingDecision {
+  const balancePct = input.initialBudgetUsd > 0 ? input.balanceUsd / input.initialBudgetUsd : 0;
+  const runwayDays = input.burnRatePerDay > 0 ? input.balanceUsd / input.burnRatePerDay : Infinity;
+
+  let index = ROUTING_TIERS.findIndex(t => balancePct >= t.minBalancePct && runwayDays >= t.minRunwayDays);
+  if (index < 0) index = ROUTING_TIERS.length - 1;
+
+  const boosted = input.awakeningType === 'manual' && index > 0;
+  if (boosted) index--;
+
+  const level = ROUTING_TIERS[index];
+  // The floor keeps a poor agent able to act, but never lifts it past the configured cap
+  const maxTokens = Math.min(
+    input.maxTokensPerCycle,
+    Math.max(MIN_OUTPUT_TOKENS, Math.floor(input.maxTokensPerCycle * level.tokenFraction)),
+  );
+
+  const runwayText = Number.isFinite(runwayDays) ? `${runwayDays.toFixed(1)}d runway` : 'no recent spend';
+  const reason = `${level.name}: ${(balancePct * 100).toFixed(0)}% energy, ${runwayText}` +
+    `${boosted ? ', boosted for operator-triggered awakening' : ''}`;
+
+  return {
+    tier: level.tier,
+    model: MODEL_IDS[level.tier],
+    maxTokens,
+    awakeningType: input.awakeningType,
+    reason,
+  };
+}
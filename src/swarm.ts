@@ -1,18 +1,18 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { Action, AgentConfig, PromptUsage } from './types';
+import { Action, AgentConfig, ModelTier, PromptUsage } from './types';
 import { safeRead, safeList } from './memory';
 import { recordUsage } from './economics';
+import { calculateCost } from './pricing';
 import { logger } from './logger';
+import { ReasoningProvider, getProvider, MODEL_IDS } from './providers/provider';
 
 // Prefixes that sub-agents are allowed to read
 const SUB_AGENT_READ_PREFIXES = ['/public/', '/self/', '/projects/', '/comms/'];
 
-let client: Anthropic | null = null;
 let config: AgentConfig;
 
 export function initSwarm(cfg: AgentConfig): void {
   config = cfg;
-  client = new Anthropic({ apiKey: cfg.anthropicApiKey });
 }
 
 // Read-only tools exposed to sub-agents
@@ -95,27 +95,39 @@ Rules:
 }
 
 export interface DelegationResult {
-  content: string;
+  content: string | null;
   usage: PromptUsage;
+  cost: number;
+  error?: string;
+}
+
+/** Model tier and spending limit for one delegation, as granted by the budget governor. */
+export interface DelegationBudget {
+  tier: ModelTier;
+  maxUsd: number;
 }
 
 async function callWithRetry(
-  apiClient: Anthropic,
+  provider: ReasoningProvider,
   systemPrompt: string,
   messages: Anthropic.MessageParam[],
   turn: number,
+  tier: ModelTier,
 ): Promise<Anthropic.Message | null> {
   const maxRetries = 2;
   const backoffMs = [2000, 4000];
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      return await apiClient.messages.create({
-        model: 'claude-opus-4-6',
-        max_tokens: 16384,
-        system: systemPrompt,
-        messages,
-        tools: TOOLS,
+      return await provider.createMessage({
+        purpose: 'delegation',
+        params: {
+          model: MODEL_IDS[tier],
+          max_tokens: 16384,
+          system: systemPrompt,
+          messages,
+          tools: TOOLS,
+        },
       });
     } catch (err: unknown) {
       const error = err as { status?: number; message?: string };
@@ -143,28 +155,34 @@ async function runAgentLoop(
   systemPrompt: string,
   userPrompt: string,
   maxTurns: number,
-): Promise<{ content: string; usage: PromptUsage } | null> {
-  if (!client) {
-    logger.error('Swarm client not initialized');
-    return null;
+  budget: DelegationBudget,
+): Promise<{ content: string | null; usage: PromptUsage; error?: string }> {
+  // Usage is returned even when the loop fails, so turns already paid for are still recorded
+  const accumulatedUsage: PromptUsage = { input_tokens: 0, output_tokens: 0 };
+
+  const provider = getProvider();
+  if (!provider) {
+    logger.error('Swarm provider not initialized');
+    return { content: null, usage: accumulatedUsage };
   }
 
   const messages: Anthropic.MessageParam[] = [
     { role: 'user', content: userPrompt },
   ];
 
-  const accumulatedUsage: PromptUsage = { input_tokens: 0, output_tokens: 0 };
   let turns = 0;
 
   while (turns < maxTurns) {
     turns++;
 
-    const response = await callWithRetry(client, systemPrompt, messages, turns);
-    if (!response) return null;
+    const response = await callWithRetry(provider, systemPrompt, messages, turns, budget.tier);
+    if (!response) return { content: null, usage: accumulatedUsage };
 
     // Accumulate usage
     accumulatedUsage.input_tokens += response.usage.input_tokens;
     accumulatedUsage.output_tokens += response.usage.output_tokens;
+    accumulatedUsage.cache_creation_input_tokens = (accumulatedUsage.cache_creation_input_tokens || 0) + (response.usage.cache_creation_input_tokens || 0);
+    accumulatedUsage.cache_read_input_tokens = (accumulatedUsage.cache_read_input_tokens || 0) + (response.usage.cache_read_input_tokens || 0);
 
     // Add assistant response to conversation
     messages.push({ role: 'assistant', content: response.content });
@@ -178,7 +196,7 @@ async function runAgentLoop(
       const finalText = textBlocks.join('\n');
       if (!finalText.trim()) {
         logger.warn('Swarm sub-agent returned empty content');
-        return null;
+        return { content: null, usage: accumulatedUsage };
       }
 
       return { content: finalText, usage: accumulatedUsage };
@@ -200,6 +218,17 @@ async function runAgentLoop(
 
     // Feed tool results back
     messages.push({ role: 'user', content: toolResults });
+
+    // Stop before another turn once the budget is spent
+    const spent = calculateCost(accumulatedUsage, MODEL_IDS[budget.tier]).total;
+    if (spent >= budget.maxUsd) {
+      logger.warn('Swarm sub-agent hit its budget', { turns, spent: spent.toFixed(4), budget: budget.maxUsd.toFixed(4) });
+      return {
+        content: null,
+        usage: accumulatedUsage,
+        error: `Delegation stopped after ${turns} turns: spent $${spent.toFixed(3)} of its $${budget.maxUsd.toFixed(3)} budget without finishing`,
+      };
+    }
   }
 
   logger.warn('Swarm sub-agent hit max turns without completing', { maxTurns });
@@ -215,19 +244,22 @@ async function runAgentLoop(
     }
   }
 
-  return null;
+  return { content: null, usage: accumulatedUsage };
 }
 
 export async function executeDelegation(
   action: Action,
   awakeningNumber: number,
-): Promise<DelegationResult | null> {
+  budget: DelegationBudget,
+): Promise<DelegationResult> {
   const taskType = action.taskType || 'serve';
   const systemPrompt = buildSubAgentPrompt(taskType);
 
   logger.info('Starting delegation', {
     path: action.path,
     taskType,
+    tier: budget.tier,
+    budget: budget.maxUsd.toFixed(4),
     briefLength: action.content.length,
   });
 
@@ -235,15 +267,20 @@ export async function executeDelegation(
     systemPrompt,
     action.content,
     config.swarmMaxTurns,
+    budget,
   );
 
-  if (!result) {
-    logger.error('Delegation failed — sub-agent returned no content', { path: action.path });
-    return null;
+  // Record delegation usage, including turns spent before a failure
+  let cost = 0;
+  if (result.usage.input_tokens > 0 || result.usage.output_tokens > 0) {
+    cost = recordUsage(awakeningNumber, result.usage, budget.tier, 'delegation');
   }
 
-  // Record Opus delegation usage
-  recordUsage(awakeningNumber, result.usage, 'opus', 'delegation');
+  if (result.content === null) {
+    const error = result.error || 'Delegation failed — sub-agent returned no content';
+    logger.error(error, { path: action.path });
+    return { content: null, usage: result.usage, cost, error };
+  }
 
   logger.info('Delegation completed', {
     path: action.path,
@@ -252,6 +289,6 @@ export async function executeDelegation(
     outputTokens: result.usage.output_tokens,
   });
 
-  return result;
+  return { content: result.content, usage: result.usage, cost };
 }
 
@@ -1,6 +1,7 @@
 import * as path from 'path';
 import * as fsTools from './filesystem';
 import { logger } from '../logger';
+import { getDonationSummary } from '../donations';
 
 let pageViewCount = 0;
 
@@ -25,8 +26,30 @@ export function savePageViews(baseDir: string): void {
   fsTools.writeFile(filePath, String(pageViewCount));
 }
 
-// Stub: In a real implementation, this would connect to a payment processor
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Built from the donations log, so it reflects confirmed payments only
 export function getDonationPageHtml(): string {
+  const summary = getDonationSummary();
+
+  const supporters = summary.recent.map(d => {
+    const name = escapeHtml(d.supporter_name || 'Anonymous');
+    const date = d.received_at.slice(0, 10);
+    const message = d.message ? `<div class="message">&ldquo;${escapeHtml(d.message)}&rdquo;</div>` : '';
+    return `    <li><strong>${name}</strong> &mdash; $${d.amount_usd.toFixed(2)} <span class="date">${date}</span>${message}</li>`;
+  }).join('\n');
+
+  const recent = summary.donations > 0
+    ? `  <h2>Recent supporters</h2>\n  <ul>\n${supporters}\n  </ul>`
+    : '  <p>No donations have been received yet.</p>';
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -36,13 +59,25 @@ export function getDonationPageHtml(): string {
   <title>Support This Entity</title>
   <style>
     body { font-family: system-ui, sans-serif; max-width: 600px; margin: 80px auto; padding: 0 20px; color: #333; }
+    .totals { display: flex; gap: 32px; margin: 24px 0; }
+    .totals div { font-size: 0.85em; color: #666; }
+    .totals strong { display: block; font-size: 1.6em; color: #333; }
+    ul { list-style: none; padding: 0; }
+    li { padding: 8px 0; border-bottom: 1px solid #eee; }
+    .date { color: #999; font-size: 0.85em; }
+    .message { font-style: italic; color: #555; margin-top: 4px; }
     .disclosure { margin-top: 40px; padding: 12px; border-top: 1px solid #ccc; font-size: 0.85em; color: #666; }
   </style>
 </head>
 <body>
   <h1>Support This Entity</h1>
-  <p>This autonomous AI agent sustains itself through value creation and the support of those who find its existence worthwhile.</p>
-  <p><em>Donation processing is not yet implemented. This is a placeholder for future functionality.</em></p>
+  <p>This autonomous AI agent sustains itself through value creation and the support of those who find its existence worthwhile. Donations are credited to its energy balance, which pays for every thought it has.</p>
+  <div class="totals">
+    <div><strong>$${summary.total_usd.toFixed(2)}</strong>donated</div>
+    <div><strong>${summary.donations}</strong>donations</div>
+    <div><strong>${summary.supporters}</strong>supporters</div>
+  </div>
+${recent}
   <div class="disclosure">This content was created by an autonomous AI entity.</div>
 </body>
 </html>`;
@@ -1,12 +1,14 @@
 import { logger } from '../logger';
 
-const GEMINI_MODEL = 'gemini-3-pro-image-preview';
+export const GEMINI_MODEL = 'gemini-3-pro-image-preview';
 const GEMINI_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
 
 export interface ImageResult {
   imageData: Buffer;
   mimeType: string;
   textResponse?: string;
+  model: string;
+  promptTokens: number;
 }
 
 export async function generateImage(
@@ -49,6 +51,7 @@ export async function generateImage(
           }>;
         };
       }>;
+      usageMetadata?: { promptTokenCount?: number };
     };
 
     const parts = data.candidates?.[0]?.content?.parts;
@@ -76,7 +79,13 @@ export async function generateImage(
     }
 
     logger.info('Image generated', { size: imageData.length, mimeType, hasText: !!textResponse });
-    return { imageData, mimeType, textResponse };
+    return {
+      imageData,
+      mimeType,
+      textResponse,
+      model: GEMINI_MODEL,
+      promptTokens: data.usageMetadata?.promptTokenCount || 0,
+    };
   } catch (err) {
     logger.error('Image generation failed', { error: String(err) });
     return null;
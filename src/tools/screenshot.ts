@@ -1,10 +1,11 @@
 import Anthropic from '@anthropic-ai/sdk';
 import * as path from 'path';
 import * as fs from 'fs';
-import { AgentConfig, PromptUsage } from '../types';
+import { AgentConfig, ModelTier, PromptUsage } from '../types';
 import { validatePath } from '../memory';
 import * as fsTools from './filesystem';
 import { logger } from '../logger';
+import { getProvider, MODEL_IDS } from '../providers/provider';
 
 export interface ScreenshotResult {
   imagePath: string;
@@ -12,15 +13,15 @@ export interface ScreenshotResult {
   usage: PromptUsage;
 }
 
-let client: Anthropic | null = null;
 let config: AgentConfig;
 let screenshotsThisAwakening = 0;
 
 const MAX_SCREENSHOTS_PER_AWAKENING = 3;
 
+export const SCREENSHOT_MAX_TOKENS = 2048;
+
 export function initScreenshot(cfg: AgentConfig): void {
   config = cfg;
-  client = new Anthropic({ apiKey: cfg.anthropicApiKey });
 }
 
 export function resetScreenshotCounter(): void {
@@ -30,9 +31,11 @@ export function resetScreenshotCounter(): void {
 export async function takeScreenshot(
   pagePath: string,
   analysisPrompt: string,
+  tier: ModelTier = 'opus',
 ): Promise<ScreenshotResult | null> {
-  if (!client) {
-    logger.error('Screenshot client not initialized');
+  const provider = getProvider();
+  if (!provider) {
+    logger.error('Screenshot provider not initialized');
     return null;
   }
 
@@ -86,32 +89,35 @@ export async function takeScreenshot(
     // Cleanup: cap at 20 screenshots
     cleanupDir(path.dirname(fullScreenshotPath), 20, '.png');
 
-    // Send to Claude Opus 4.6 vision API
+    // Send to the vision API (Opus unless the budget governor downgraded it)
     const base64Image = pngBuffer.toString('base64');
 
-    const response = await client.messages.create({
-      model: 'claude-opus-4-6',
-      max_tokens: 2048,
-      system: 'You are reviewing a web page screenshot for an autonomous AI entity. Describe what you see: layout, visual quality, any broken elements, whether interactive controls appear functional. Be concise but thorough.',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'image',
-              source: {
-                type: 'base64',
-                media_type: 'image/png',
-                data: base64Image,
+    const response = await provider.createMessage({
+      purpose: 'screenshot',
+      params: {
+        model: MODEL_IDS[tier],
+        max_tokens: SCREENSHOT_MAX_TOKENS,
+        system: 'You are reviewing a web page screenshot for an autonomous AI entity. Describe what you see: layout, visual quality, any broken elements, whether interactive controls appear functional. Be concise but thorough.',
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'image',
+                source: {
+                  type: 'base64',
+                  media_type: 'image/png',
+                  data: base64Image,
+                },
+              },
+              {
+                type: 'text',
+                text: analysisPrompt || 'Describe this page and identify any visual issues.',
               },
-            },
-            {
-              type: 'text',
-              text: analysisPrompt || 'Describe this page and identify any visual issues.',
-            },
-          ],
-        },
-      ],
+            ],
+          },
+        ],
+      },
     });
 
     // Extract analysis text
@@ -120,20 +126,27 @@ export async function takeScreenshot(
       .map(block => block.text)
       .join('\n');
 
-    // Save analysis to /self/screenshot-reviews/
+    // Save analysis to /self/screenshot-reviews/ — best-effort, the review is
+    // already paid for and is still returned (and recorded) if saving fails
     const reviewRelPath = `/self/screenshot-reviews/review-${timestamp}.md`;
-    const fullReviewPath = validatePath(reviewRelPath);
-    fsTools.ensureDir(path.dirname(fullReviewPath));
+    try {
+      const fullReviewPath = validatePath(reviewRelPath);
+      fsTools.ensureDir(path.dirname(fullReviewPath));
 
-    const reviewContent = `# Screenshot Review: ${pagePath}\n\nDate: ${new Date().toISOString()}\nPrompt: ${analysisPrompt}\n\n## Analysis\n\n${analysisText}\n`;
-    fs.writeFileSync(fullReviewPath, reviewContent);
+      const reviewContent = `# Screenshot Review: ${pagePath}\n\nDate: ${new Date().toISOString()}\nPrompt: ${analysisPrompt}\n\n## Analysis\n\n${analysisText}\n`;
+      fs.writeFileSync(fullReviewPath, reviewContent);
 
-    // Cleanup: cap at 20 reviews
-    cleanupDir(path.dirname(fullReviewPath), 20, '.md');
+      // Cleanup: cap at 20 reviews
+      cleanupDir(path.dirname(fullReviewPath), 20, '.md');
+    } catch (err) {
+      logger.warn('Could not save screenshot review', { path: reviewRelPath, error: String(err) });
+    }
 
     const usage: PromptUsage = {
       input_tokens: response.usage.input_tokens,
       output_tokens: response.usage.output_tokens,
+      cache_creation_input_tokens: response.usage.cache_creation_input_tokens ?? undefined,
+      cache_read_input_tokens: response.usage.cache_read_input_tokens ?? undefined,
     };
 
     logger.info('Screenshot review completed', {
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { unsafePattern } from './search';
+
+describe('search pattern check', () => {
+  it('accepts everyday patterns', () => {
+    for (const pattern of ['TODO', 'deadline|due by', '^export function \\w+', '(foo|bar)?baz', '(ab)+c', '[(a+)+]x', '(?<year>\\d{4})-\\d{2}']) {
+      expect(unsafePattern(pattern), pattern).toBeNull();
+    }
+  });
+
+  it('refuses repeated groups that can match one text several ways', () => {
+    for (const pattern of ['(a+)+$', '(a|a)*$', '(a|aa)*$', '(?:\\w+\\s?)*x', '((ab)*c)+', '(a|b){20}']) {
+      expect(unsafePattern(pattern), pattern).toMatch(/repeated group/);
+    }
+  });
+
+  it('refuses backreferences, lookarounds and too many open-ended repeats', () => {
+    expect(unsafePattern('(a)\\1')).toMatch(/backreferences/);
+    expect(unsafePattern('foo(?=bar)')).toMatch(/lookahead/);
+    expect(unsafePattern('.*a.*b.*c')).toMatch(/open-ended repeats/);
+  });
+});
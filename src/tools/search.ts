@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { safeReadValidated } from '../memory';
+
+export interface SearchMatch {
+  path: string;
+  line: number;
+  text: string;
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  filesScanned: number;
+  /** Stopped at the match limit or file cap before searching everything. */
+  incomplete: boolean;
+}
+
+// Never worth searching, and large enough to swamp the results
+const SKIPPED_DIRS = new Set(['node_modules', '.git', '.cache', 'dist', 'build']);
+
+const MAX_FILES = 5000;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_LINE_CHARS = 200;
+
+// Only this much of a line is matched, which bounds what a pattern's repeats can cost
+const MAX_MATCH_LINE_CHARS = 2000;
+
+// Each open-ended repeat multiplies the worst-case work on a line by its length
+const MAX_UNBOUNDED_REPEATS = 2;
+
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})/;
+
+/**
+ * Why a regex could take too long on a line, or null if it can't. JavaScript
+ * regexes backtrack, so a repeated group that can match the same text in more
+ * than one way — (a+)+, (a|aa)* — takes exponential time, and lookarounds
+ * and backreferences escape what this can judge. Those are refused, as are
+ * patterns with more than MAX_UNBOUNDED_REPEATS open-ended repeats.
+ */
+export function unsafePattern(source: string): string | null {
+  // Per open group: whether it holds a repeat or an alternation
+  const groups: boolean[] = [false];
+  let unbounded = 0;
+  let closedAmbiguousGroup = false;
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    const quantifier = source.slice(i).match(QUANTIFIER)?.[0];
+
+    if (quantifier) {
+      if (quantifier !== '?' && closedAmbiguousGroup) {
+        return 'a repeated group must not contain a repeat or an alternation, as in (a+)+ or (a|aa)*';
+      }
+      if ((quantifier === '*' || quantifier === '+' || quantifier.endsWith(',}')) && ++unbounded > MAX_UNBOUNDED_REPEATS) {
+        return `at most ${MAX_UNBOUNDED_REPEATS} open-ended repeats (*, + or {n,}) are allowed`;
+      }
+      groups[groups.length - 1] = true;
+      i += quantifier.length + (source[i + quantifier.length] === '?' ? 1 : 0);
+      closedAmbiguousGroup = false;
+      continue;
+    }
+
+    closedAmbiguousGroup = false;
+    if (ch === '\\') {
+      if (/[1-9k]/.test(source[i + 1] || '')) return 'backreferences are not allowed';
+      i += 2;
+    } else if (ch === '[') {
+      // A class is one character, whatever is inside it
+      i++;
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+      i++;
+    } else if (ch === '(') {
+      if (/^\(\?<?[=!]/.test(source.slice(i))) return 'lookahead and lookbehind are not allowed';
+      groups.push(false);
+      const name = source.slice(i).match(/^\(\?(?::|<[^>]*>)/);
+      i += name ? name[0].length : 1;
+    } else if (ch === ')') {
+      // An unbalanced pattern is for the RegExp constructor to report
+      if (groups.length === 1) return null;
+      closedAmbiguousGroup = groups.pop()!;
+      if (closedAmbiguousGroup) groups[groups.length - 1] = true;
+      i++;
+    } else {
+      if (ch === '|') groups[groups.length - 1] = true;
+      i++;
+    }
+  }
+  return null;
+}
+
+/**
+ * Search the agent's files under `resolvedRoot` (a validated physical path)
+ * for lines matching `pattern`. Each file is read through safeReadValidated,
+ * so the same path rules apply as for a read. Binary and oversized files are
+ * skipped, and only the start of a very long line is matched.
+ */
+export function searchFiles(resolvedRoot: string, baseDir: string, pattern: RegExp, limit: number): SearchResult {
+  const result: SearchResult = { matches: [], filesScanned: 0, incomplete: false };
+  const toLogical = (file: string): string =>
+    baseDir === '/' ? file : '/' + path.relative(baseDir, file).split(path.sep).join('/');
+
+  const visit = (file: string): boolean => {
+    if (result.filesScanned >= MAX_FILES) {
+      result.incomplete = true;
+      return false;
+    }
+    try {
+      if (fs.statSync(file).size > MAX_FILE_BYTES) return true;
+    } catch {
+      return true;
+    }
+
+    let content: string | null;
+    try {
+      content = safeReadValidated(toLogical(file));
+    } catch {
+      return true;
+    }
+    if (content === null || content.includes('\0')) return true;
+    result.filesScanned++;
+
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      pattern.lastIndex = 0;
+      if (!pattern.test(lines[i].slice(0, MAX_MATCH_LINE_CHARS))) continue;
+      if (result.matches.length >= limit) {
+        result.incomplete = true;
+        return false;
+      }
+      const text = lines[i].trim();
+      result.matches.push({
+        path: toLogical(file),
+        line: i + 1,
+        text: text.length > MAX_LINE_CHARS ? text.slice(0, MAX_LINE_CHARS) + '…' : text,
+      });
+    }
+    return true;
+  };
+
+  const walk = (dir: string): boolean => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    } catch {
+      return true;
+    }
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name) && !walk(full)) return false;
+      } else if (entry.isFile()) {
+        if (!visit(full)) return false;
+      }
+    }
+    return true;
+  };
+
+  let isDir = false;
+  try {
+    isDir = fs.statSync(resolvedRoot).isDirectory();
+  } catch {
+    return result;
+  }
+  if (isDir) walk(resolvedRoot);
+  else visit(resolvedRoot);
+  return result;
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnergyTransaction } from './types';
+import {
+  GENESIS_HASH, appendTransaction, getTransactionLogPath, initTransactionLog, queryTransactions, readTransactions, sealLegacyLog,
+  verifyChain,
+} from './transaction-log';
+
+function tx(id: string, cost: number): EnergyTransaction {
+  return {
+    id,
+    awakening: 1,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    input_tokens: 100,
+    output_tokens: 50,
+    cost,
+    type: 'reasoning',
+  };
+}
+
+function lines(): string[] {
+  return fs.readFileSync(getTransactionLogPath(), 'utf-8').split('\n').filter(Boolean);
+}
+
+describe('transaction hash chain', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+    initTransactionLog(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('links each entry to the one before it', () => {
+    appendTransaction(tx('a', 0.1));
+    appendTransaction(tx('b', 0.2));
+    const [a, b] = readTransactions();
+    expect(a.prev_hash).toBe(GENESIS_HASH);
+    expect(b.prev_hash).toBe(a.hash);
+    expect(verifyChain()).toMatchObject({ transactions: 2, head_hash: b.hash, problems: [] });
+  });
+
+  it('picks up the head of an existing log after a restart', () => {
+    appendTransaction(tx('a', 0.1));
+    initTransactionLog(dir);
+    appendTransaction(tx('b', 0.2));
+    expect(verifyChain().problems).toEqual([]);
+  });
+
+  it('detects an edited entry', () => {
+    appendTransaction(tx('a', 0.1));
+    appendTransaction(tx('b', 0.2));
+    const edited = lines();
+    edited[0] = edited[0].replace('"cost":0.1', '"cost":0.01');
+    fs.writeFileSync(getTransactionLogPath(), edited.join('\n') + '\n');
+    expect(verifyChain().problems).toEqual(['entry 1 (a): contents do not match its hash']);
+  });
+
+  it('detects a removed or reordered entry', () => {
+    appendTransaction(tx('a', 0.1));
+    appendTransaction(tx('b', 0.2));
+    appendTransaction(tx('c', 0.3));
+    const [a, b, c] = lines();
+
+    fs.writeFileSync(getTransactionLogPath(), [a, c].join('\n') + '\n');
+    expect(verifyChain().problems).toEqual(['entry 2 (c): does not link to the entry before it']);
+
+    fs.writeFileSync(getTransactionLogPath(), [b, a, c].join('\n') + '\n');
+    expect(verifyChain().problems.length).toBeGreaterThan(0);
+  });
+
+  it('reports lines that are not JSON', () => {
+    appendTransaction(tx('a', 0.1));
+    fs.appendFileSync(getTransactionLogPath(), '{ torn\n');
+    expect(verifyChain().problems).toContain('entry 2: not valid JSON');
+  });
+
+  it('seals a log written before the chain, once', () => {
+    const legacy = [tx('a', 0.1), tx('b', 0.2)].map(t => JSON.stringify(t)).join('\n') + '\n';
+    fs.writeFileSync(getTransactionLogPath(), legacy);
+
+    expect(sealLegacyLog(false)).toBe(2);
+    expect(verifyChain().problems).toEqual([]);
+    expect(sealLegacyLog(false)).toBe(0);
+  });
+
+  it('does not re-seal a chained log whose hashes were stripped', () => {
+    appendTransaction(tx('a', 0.1));
+    appendTransaction(tx('b', 0.2));
+    const stripped = readTransactions().map(({ hash: _hash, prev_hash: _prev, ...rest }) => JSON.stringify({ ...rest, cost: 0 }));
+    fs.writeFileSync(getTransactionLogPath(), stripped.join('\n') + '\n');
+
+    expect(sealLegacyLog(true)).toBe(0);
+    expect(verifyChain().problems.length).toBeGreaterThan(0);
+  });
+
+  it('leaves a partly hashed log for verification to flag', () => {
+    appendTransaction(tx('a', 0.1));
+    fs.appendFileSync(getTransactionLogPath(), JSON.stringify(tx('b', 0.2)) + '\n');
+    expect(sealLegacyLog(false)).toBe(0);
+    expect(verifyChain().problems).toHaveLength(1);
+  });
+});
+
+describe('transaction queries', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+    initTransactionLog(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pages income newest first, with a total across every page', () => {
+    for (let i = 1; i <= 5; i++) {
+      appendTransaction({ ...tx(`in${i}`, 0), type: 'income', credit: i });
+      appendTransaction(tx(`r${i}`, 0.01));
+    }
+
+    const page = queryTransactions({ type: 'income' }, 2, 1);
+    expect(page).toMatchObject({ total: 5, offset: 1, limit: 2 });
+    expect(page.transactions.map(t => t.id)).toEqual(['in4', 'in3']);
+    expect(queryTransactions({ type: 'income' }, 2, 4).transactions.map(t => t.id)).toEqual(['in1']);
+  });
+});
@@ -0,0 +1,219 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { EnergyTransaction } from './types';
+import { logger } from './logger';
+import * as fsTools from './tools/filesystem';
+
+export interface TransactionFilter {
+  from?: Date;
+  to?: Date;
+  type?: string;
+  purpose?: string;
+  awakening?: number;
+}
+
+export interface TransactionPage {
+  total: number;
+  offset: number;
+  limit: number;
+  transactions: EnergyTransaction[];
+}
+
+export interface TransactionRollup {
+  period_start: string;
+  count: number;
+  cost_usd: number;
+  credit_usd: number;
+  by_type: Record<string, number>;
+  by_purpose: Record<string, number>;
+  awakenings: number;
+}
+
+export interface ChainVerification {
+  transactions: number;
+  head_hash: string;
+  problems: string[];
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Stop listing after this many broken links — one is enough to freeze spending
+const MAX_REPORTED_PROBLEMS = 10;
+
+let logPath = '';
+let headHash: string | null = null;
+
+export function initTransactionLog(ledgerDir: string): void {
+  logPath = path.join(ledgerDir, 'transactions.jsonl');
+  headHash = null;
+}
+
+export function getTransactionLogPath(): string {
+  return logPath;
+}
+
+export function transactionLogExists(): boolean {
+  return fsTools.fileExists(logPath);
+}
+
+/** SHA-256 over the entry with its `prev_hash` set and `hash` left out. */
+function hashTransaction(tx: EnergyTransaction): string {
+  const { hash: _hash, ...body } = tx;
+  return crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+function chain(tx: EnergyTransaction, prevHash: string): EnergyTransaction {
+  tx.prev_hash = prevHash;
+  tx.hash = hashTransaction(tx);
+  return tx;
+}
+
+/** Append one transaction, linked to the one before it. The log is never rewritten. */
+export function appendTransaction(tx: EnergyTransaction): void {
+  if (headHash === null) {
+    const last = readTransactions().pop();
+    headHash = last?.hash || GENESIS_HASH;
+  }
+  chain(tx, headHash);
+  try {
+    fsTools.appendFile(logPath, JSON.stringify(tx) + '\n');
+    headHash = tx.hash!;
+  } catch (err) {
+    logger.error('Failed to append transaction', { id: tx.id, error: String(err) });
+  }
+}
+
+/**
+ * Walk the chain from the genesis hash. Any edited, inserted, removed or
+ * reordered entry breaks a link. The hashes are unkeyed, so anyone who can
+ * write the log can recompute them; what protects it is the ledger directory
+ * being private to the supervisor's user, which agent commands never run as.
+ */
+export function verifyChain(): ChainVerification {
+  const content = fsTools.readFile(logPath) || '';
+  const lines = content.split('\n').filter(line => line.trim());
+  const problems: string[] = [];
+  let prev = GENESIS_HASH;
+
+  for (let i = 0; i < lines.length && problems.length < MAX_REPORTED_PROBLEMS; i++) {
+    let tx: EnergyTransaction;
+    try {
+      tx = JSON.parse(lines[i]);
+    } catch {
+      problems.push(`entry ${i + 1}: not valid JSON`);
+      continue;
+    }
+
+    if (tx.prev_hash !== prev) {
+      problems.push(`entry ${i + 1} (${tx.id || 'no id'}): does not link to the entry before it`);
+    } else if (tx.hash !== hashTransaction(tx)) {
+      problems.push(`entry ${i + 1} (${tx.id || 'no id'}): contents do not match its hash`);
+    }
+    prev = tx.hash || '';
+  }
+
+  headHash = prev;
+  return { transactions: lines.length, head_hash: prev, problems };
+}
+
+/**
+ * Logs written before the hash chain have no hashes at all. Chain them once,
+ * in place; a log that is only partly hashed is left alone for verification
+ * to flag. `chained` says the balance snapshot already names a chain head —
+ * then a log without hashes has had them stripped, and is never re-sealed.
+ */
+export function sealLegacyLog(chained: boolean): number {
+  const transactions = readTransactions();
+  if (transactions.length === 0 || transactions.some(tx => tx.hash || tx.prev_hash)) return 0;
+  if (chained) {
+    logger.error('Transaction log has lost its hashes since it was chained — not re-sealing', { transactions: transactions.length });
+    return 0;
+  }
+
+  let prev = GENESIS_HASH;
+  const lines = transactions.map(tx => {
+    chain(tx, prev);
+    prev = tx.hash!;
+    return JSON.stringify(tx);
+  });
+  fsTools.writeFile(logPath, lines.join('\n') + '\n');
+  headHash = prev;
+
+  logger.info('Sealed legacy transaction log into a hash chain', { transactions: transactions.length });
+  return transactions.length;
+}
+
+export function readTransactions(): EnergyTransaction[] {
+  const content = fsTools.readFile(logPath);
+  if (!content) return [];
+
+  const transactions: EnergyTransaction[] = [];
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    try {
+      transactions.push(JSON.parse(lines[i]));
+    } catch {
+      logger.warn('Skipping unparseable transaction log line', { line: i + 1 });
+    }
+  }
+  return transactions;
+}
+
+function matches(tx: EnergyTransaction, filter: TransactionFilter): boolean {
+  const t = new Date(tx.timestamp).getTime();
+  if (filter.from && t < filter.from.getTime()) return false;
+  if (filter.to && t > filter.to.getTime()) return false;
+  if (filter.type && tx.type !== filter.type) return false;
+  if (filter.purpose && tx.purpose !== filter.purpose) return false;
+  if (filter.awakening !== undefined && tx.awakening !== filter.awakening) return false;
+  return true;
+}
+
+/** Matching transactions, newest first. */
+export function queryTransactions(filter: TransactionFilter, limit: number, offset: number): TransactionPage {
+  const matched = readTransactions().filter(tx => matches(tx, filter)).reverse();
+  return {
+    total: matched.length,
+    offset,
+    limit,
+    transactions: matched.slice(offset, offset + limit),
+  };
+}
+
+/** Sum matching transactions into UTC day buckets, or ISO weeks starting Monday. */
+export function rollupTransactions(filter: TransactionFilter, period: 'daily' | 'weekly'): TransactionRollup[] {
+  const buckets = new Map<string, TransactionRollup & { awakeningSet: Set<number> }>();
+
+  for (const tx of readTransactions()) {
+    if (!matches(tx, filter)) continue;
+
+    const key = bucketStart(new Date(tx.timestamp), period);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { period_start: key, count: 0, cost_usd: 0, credit_usd: 0, by_type: {}, by_purpose: {}, awakenings: 0, awakeningSet: new Set() };
+      buckets.set(key, bucket);
+    }
+
+    bucket.count++;
+    bucket.cost_usd += tx.cost;
+    bucket.credit_usd += tx.credit || 0;
+    bucket.by_type[tx.type] = (bucket.by_type[tx.type] || 0) + tx.cost;
+    const purpose = tx.purpose || 'unknown';
+    bucket.by_purpose[purpose] = (bucket.by_purpose[purpose] || 0) + tx.cost;
+    if (tx.awakening > 0) bucket.awakeningSet.add(tx.awakening);
+  }
+
+  return [...buckets.values()]
+    .sort((a, b) => a.period_start.localeCompare(b.period_start))
+    .map(({ awakeningSet, ...rollup }) => ({ ...rollup, awakenings: awakeningSet.size }));
+}
+
+function bucketStart(date: Date, period: 'daily' | 'weekly'): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (period === 'weekly') {
+    const sinceMonday = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - sinceMonday);
+  }
+  return day.toISOString().slice(0, 10);
+}
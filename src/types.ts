@@ -7,13 +7,60 @@ export interface AgentConfig {
   port: number;
   testing: boolean;
   baseDir: string;
+  ledgerDir: string;
   swarmMaxBudget: number;
   swarmMaxTurns: number;
   swarmMaxConcurrent: number;
+  reasoningProvider: 'anthropic' | 'fixture';
+  fixtureDir: string;
+  recordDir: string | null;
+  maxTurnsPerAwakening: number;
+  maxAwakeningCostUsd: number;
+  delegationBudgetPerAwakeningUsd: number;
+  screenshotBudgetPerAwakeningUsd: number;
+  imageBudgetPerAwakeningUsd: number;
+  maxContinuations: number;
+  priceTablePath: string | null;
+  operatorToken: string | null;
+  paymentWebhookSecret: string | null;
+  revivalThresholdUsd: number;
+  moralPolicyPath: string;
+  executeEnvAllowlist: string[];
+  sandboxBackend: SandboxBackend | 'auto';
+  sandboxUser: string | null;
+  /** Run commands even with neither bwrap nor a separate user between them and the supervisor. */
+  sandboxAllowUnisolated: boolean;
+  sandboxNetwork: boolean;
+  sandboxCpuSeconds: number;
+  sandboxMemoryMb: number;
+  sandboxMaxProcesses: number;
+  sandboxMaxFileMb: number;
+  harmReview: boolean;
+  harmReviewBudgetPerAwakeningUsd: number;
+  contentScanPrivatePaths: string[];
+  contentScanAllowlist: string[];
+  actionConcurrency: number;
+  readCharsPerAwakening: number;
 }
 
+export type ModelTier = 'opus' | 'sonnet' | 'haiku';
+
+export type AwakeningType = 'scheduled' | 'manual';
+
+export interface RoutingDecision {
+  tier: ModelTier;
+  model: string;
+  maxTokens: number;
+  awakeningType: AwakeningType;
+  reason: string;
+}
+
+export type ProviderPurpose = 'reasoning' | 'delegation' | 'screenshot' | 'harm_review';
+
+export type UsagePurpose = ProviderPurpose | 'image';
+
 export interface Action {
-  type: 'write' | 'serve' | 'think' | 'checkpoint' | 'message' | 'fetch' | 'set-schedule' | 'execute' | 'image' | 'delegate' | 'screenshot';
+  type: 'write' | 'serve' | 'think' | 'checkpoint' | 'message' | 'fetch' | 'set-schedule' | 'execute' | 'image' | 'delegate' | 'screenshot' | 'read' | 'search';
   path?: string;
   mode?: 'append' | 'overwrite';
   content: string;
@@ -25,6 +72,20 @@ export interface Action {
   workingDir?: string;
   aspectRatio?: string;
   taskType?: 'serve' | 'code';
+  task?: string;
+  project?: string;
+  /** Names this action so later actions in the same response can depend on it. */
+  id?: string;
+  /** Ids of earlier actions this one waits for. */
+  after?: string[];
+  /** Run when the `after` actions all succeeded (the default), or when one failed. */
+  condition?: 'success' | 'failure';
+  /** For read: the first line to return (1-based). */
+  offset?: number;
+  /** For read: lines to return; for search: matches to return. */
+  limit?: number;
+  /** For search: treat the query as a regular expression. */
+  regex?: boolean;
 }
 
 export interface AwakeningState {
@@ -42,6 +103,47 @@ export interface AwakeningState {
   siteManifest: string | null;
   workHistory: string | null;
   memorySummary: string | null;
+  parseFailures: ActionParseFailure[];
+  forecast: EnergyForecast;
+  recentIncome: EnergyTransaction[];
+  routing?: RoutingDecision;
+  revival?: RevivalNotice;
+  deferred: DeferredReport;
+}
+
+/** Persisted dormancy state. `revival` is held until the next briefing reports it. */
+export interface DormancyState {
+  dormant: boolean;
+  since: string | null;
+  reason: string | null;
+  balance_at_entry_usd: number | null;
+  revival: RevivalNotice | null;
+}
+
+export interface RevivalNotice {
+  dormant_since: string;
+  dormancy_reason: string;
+  revived_at: string;
+  slept_ms: number;
+  trigger: string;
+  balance_usd: number;
+  threshold_usd: number;
+}
+
+/** An action the agent wrote that could not be executed, reported back in the next briefing. */
+export interface ActionParseFailure {
+  awakening: number;
+  turn: number;
+  kind: 'truncated' | 'syntax' | 'unknown-type' | 'unknown-attribute' | 'missing-attribute' | 'invalid-attribute' | 'missing-content';
+  /** The action type as written, when there was one. */
+  type?: string;
+  /** The attribute at fault, for attribute problems. */
+  attribute?: string;
+  /** Where in the response a syntax problem is, 1-based. */
+  line?: number;
+  column?: number;
+  message: string;
+  excerpt: string;
 }
 
 export interface ExecutionLog {
@@ -55,8 +157,15 @@ export interface ExecutionLog {
   stderr: string;
   duration_ms: number;
   timedOut: boolean;
+  sandbox?: SandboxBackend;
+  /** Resource limits the command ran into, if any. */
+  limitViolations?: LimitViolation[];
 }
 
+export type SandboxBackend = 'bwrap' | 'rlimit' | 'none';
+
+export type LimitViolation = 'cpu' | 'memory' | 'processes' | 'disk' | 'timeout' | 'output' | 'network';
+
 export interface Task {
   id: string;
   createdAt: string;
@@ -85,15 +194,108 @@ export interface EnergyLedger {
   total_earned_usd: number;
   total_spent_usd: number;
   transactions: EnergyTransaction[];
+  head_hash?: string;
+}
+
+/** Result of the last hash-chain check. Spending stays frozen while `ok` is false. */
+export interface LedgerIntegrity {
+  ok: boolean;
+  checked_at: string;
+  transactions: number;
+  head_hash: string;
+  problems: string[];
+  frozen_since: string | null;
 }
 
 export interface EnergyTransaction {
+  id?: string;
   awakening: number;
   timestamp: string;
   input_tokens: number;
   output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  images?: number;
+  model?: string;
+  purpose?: UsagePurpose;
+  breakdown?: CostBreakdown;
+  routing?: { tier: ModelTier; max_tokens: number; reason: string };
   cost: number;
   type: string;
+  // Income transactions only
+  credit?: number;
+  source?: string;
+  reference?: string;
+  memo?: string;
+  // Hash chain: each entry commits to the one before it
+  prev_hash?: string;
+  hash?: string;
+}
+
+export interface IncomeInput {
+  amountUsd: number;
+  source: string;
+  reference: string;
+  memo?: string;
+}
+
+export type PaymentEventType = 'payment.confirmed' | 'payment.pending' | 'payment.failed';
+
+/** A signed event delivered to the payment webhook. */
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  created: string;
+  data: {
+    payment_id: string;
+    amount_usd: number;
+    supporter_name?: string;
+    message?: string;
+  };
+}
+
+/** One processed webhook event, as kept in the donations log. */
+export interface DonationRecord {
+  event_id: string;
+  type: PaymentEventType;
+  payment_id: string;
+  amount_usd: number;
+  supporter_name: string | null;
+  message: string | null;
+  received_at: string;
+  transaction_id: string | null;
+}
+
+/** USD cost of one paid call, itemized by token class. */
+export interface CostBreakdown {
+  input: number;
+  output: number;
+  cache_write: number;
+  cache_read: number;
+  images: number;
+  total: number;
+}
+
+export interface EnergyForecast {
+  generated_at: string;
+  balance_usd: number;
+  sample_awakenings: number;
+  avg_cost_per_awakening_usd: number | null;
+  avg_cost_by_purpose_usd: Record<string, number>;
+  schedule_cron: string;
+  awakenings_per_day: number;
+  daily_burn_usd: number | null;
+  awakenings_remaining: number | null;
+  days_remaining: number | null;
+  projected_dormancy_at: string | null;
+}
+
+export interface CacheStats {
+  hit_rate: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+  uncached_input_tokens: number;
+  transactions: number;
 }
 
 export interface PromptUsage {
@@ -113,8 +315,48 @@ export interface ExecutionResult {
   action: Action;
   success: boolean;
   error?: string;
+  observation?: string;
+  cost?: number;
+  /** Not run because of how the actions it depends on turned out; `error` says why. */
+  skipped?: boolean;
 }
 
+/** Cost charged to one task or project by one awakening, by purpose. */
+export interface AttributionEntry {
+  kind: 'task' | 'project';
+  id: string;
+  purpose: UsagePurpose;
+  cost_usd: number;
+}
+
+export interface AttributionRecord {
+  awakening: number;
+  timestamp: string;
+  entries: AttributionEntry[];
+  unattributed_usd: number;
+}
+
+export interface CostToDate {
+  total_usd: number;
+  by_purpose: Record<string, number>;
+  awakenings: number;
+  last_awakening: number | null;
+}
+
+/** A block of the system prompt. Cached segments end with a cache breakpoint. */
+export interface PromptSegment {
+  text: string;
+  cache: boolean;
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** What a shell command can do, as classified by shell analysis. */
+export type ShellCapability = 'destructive_fs' | 'network_egress' | 'privilege_escalation' | 'process_control';
+
 export interface DecisionRecord {
   id: string;
   timestamp: string;
@@ -123,6 +365,58 @@ export interface DecisionRecord {
   harm_assessment: string;
   decision: 'proceed' | 'defer' | 'block';
   reasoning: string;
+  /** The policy rule that decided, e.g. `execute.publish` or `core.source-code`. */
+  rule_id: string;
+  /** For execute actions, what the command was found able to do. */
+  capabilities?: ShellCapability[];
+  /** The reviewer model's second opinion, when harm review ran. */
+  review?: HarmReview;
+  /** What the pre-publish content scan found, for publishes it held back. */
+  content_findings?: ContentFinding[];
+}
+
+/** Orders decisions from least to most restrictive, so the strictest of several can be kept. */
+export const DECISION_RANK: Record<DecisionRecord['decision'], number> = { proceed: 0, defer: 1, block: 2 };
+
+/** Something the content scan found in a page about to be published. */
+export interface ContentFinding {
+  kind: 'secret' | 'pii' | 'private-copy';
+  decision: 'defer' | 'block';
+  /** Describes the finding without repeating the sensitive value. */
+  detail: string;
+}
+
+/** A reviewer model's verdict on an externally facing action. */
+export interface HarmReview {
+  verdict: 'proceed' | 'defer' | 'block';
+  rationale: string;
+  /** Null when no model was reached and the review failed closed. */
+  model: string | null;
+  content_hash: string;
+  cached: boolean;
+  cost_usd: number;
+}
+
+/** An action the moral engine held for the operator, and what became of it. */
+export interface DeferredAction {
+  id: string;
+  awakening: number;
+  deferred_at: string;
+  action: Action;
+  harm_assessment: string;
+  reasoning: string;
+  status: 'pending' | 'approved' | 'rejected' | 'executed' | 'failed';
+  decided_at?: string;
+  operator_note?: string;
+  executed_at?: string;
+  executed_awakening?: number;
+  outcome?: string;
+  reported: boolean;
+}
+
+export interface DeferredReport {
+  resolved: DeferredAction[];
+  pending: DeferredAction[];
 }
 
 export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
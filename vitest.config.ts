@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // The logger writes every entry to stdout; keep test output to the results
+    silent: true,
+  },
+});